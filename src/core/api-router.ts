@@ -8,40 +8,66 @@ import {
     normalizePath,
     ROUTE_CONSTANTS,
     HTTP_METHODS,
+    importModule,
+    invalidateModule,
+    invalidateDirectory,
+    logRouteChanges,
 } from '@utils';
 
 // Import types
 import type {
     ConfigurableMiddleware,
+    CorsOptions,
+    FolderConfig,
     GuardDefinition,
     Middleware,
     MiddlewareDefinition,
     RequestHandler,
     RouteDefinition,
+    RouteParams,
     TrieNode,
 } from '@Types';
 
+/**
+ * Merges an inner CORS policy over an outer one.
+ * `false` disables CORS, and an inner object only overrides the keys it sets.
+ * @param outer The policy inherited from enclosing folders (or the route, for a method).
+ * @param inner The policy declared at the current level.
+ * @returns The merged policy, or undefined if neither level declares one.
+ */
+export function mergeCors(
+    outer: CorsOptions | false | undefined,
+    inner: CorsOptions | false | undefined
+): CorsOptions | false | undefined {
+    if (inner === undefined) return outer;
+    if (inner === false) return false;
+    return { ...(outer || {}), ...inner };
+}
+
 /**
  * ApiRouter class for handling file-based routing.
  * Loads routes from a directory structure and matches requests to the appropriate route handlers.
- * Supports dynamic segments (e.g., [id]) and HTTP method handlers.
+ * Supports dynamic segments (e.g., [id]), catch-all segments (e.g., [...path])
+ * and optional catch-all segments (e.g., [[...slug]]) as well as HTTP method handlers.
  * Routes are sorted to prioritize static routes over dynamic ones to prevent overlapping route issues.
  */
 export class ApiRouter {
     /** The root of the trie where all routes will begin*/
     private root: TrieNode = { children: new Map() };
 
+    /** The root of the trie being built by loadRoutes, swapped in once complete */
+    private nextRoot: TrieNode = this.root;
+
+    /** Route modules registered in code, keyed by route path */
+    private codeRoutes: Map<string, Record<string, any>> = new Map();
+
     /**
      * Constructor for the ApiRouter class.
      * @param routesDir The directory path where route modules are located.
+     * Without it, only routes registered in code (see addRoute) are served.
      * @param prefix Optional prefix to prepend to all routes (e.g., "api" becomes "/api/...").
-     * @throws {Error} If the routes directory path is not provided.
      */
-    constructor(private routesDir: string, private prefix: string = '') {
-        if (!routesDir) {
-            throw new Error('Routes directory path is required');
-        }
-    }
+    constructor(private routesDir?: string, private prefix: string = '') {}
 
     /**
      * Getter for the routes trie.
@@ -53,12 +79,23 @@ export class ApiRouter {
 
     /**
      * Loads all routes from the routes directory into the trie structure.
+     * The routes are loaded into a new trie which replaces the current one only
+     * once it is complete, so requests never see a partially loaded trie.
      * @returns {Promise<void>} A promise that resolves when all routes are loaded.
      * @throws {Error} If the routes directory is not found or if an error occurs during route loading.
      */
     public async loadRoutes(): Promise<void> {
         try {
-            await this.scanDirectory(this.routesDir);
+            this.nextRoot = { children: new Map() };
+            if (this.routesDir) {
+                await this.scanDirectory(this.routesDir);
+            }
+            this.codeRoutes.forEach((routeModule, routePath) => {
+                this.insertRoute(
+                    this.createRouteDefinition(routeModule, routePath, {})
+                );
+            });
+            this.root = this.nextRoot;
         } catch (error) {
             const errorMessage =
                 error instanceof Error ? error.message : String(error);
@@ -66,21 +103,153 @@ export class ApiRouter {
         }
     }
 
+    /**
+     * Reloads all routes, re-importing every module in the routes directory, so
+     * routes pick up changes to the helpers they import. The current routes
+     * keep serving requests while reloading, and stay in place if it fails.
+     * @param changedFiles The files that changed since the routes were last loaded.
+     * @returns {Promise<void>} A promise that resolves when the routes are reloaded.
+     */
+    public async reload(changedFiles: string[] = []): Promise<void> {
+        if (this.routesDir) {
+            invalidateDirectory(this.routesDir);
+        }
+        changedFiles.forEach((file) => invalidateModule(file));
+        const before = this.listRoutes().map((route) => route.path);
+        try {
+            await this.loadRoutes();
+        } catch (error) {
+            console.error('Failed to reload routes, keeping previous routes:', error);
+            return;
+        }
+        logRouteChanges(
+            'API',
+            before,
+            this.listRoutes().map((route) => route.path)
+        );
+    }
+
+    /**
+     * Registers a route in code, loaded with the file routes by loadRoutes.
+     * Routes registered for the same path are merged, like the exports of one
+     * `route.ts` file: their handlers, schemas, OpenAPI metadata and method
+     * configs (`config.get`, ...) are combined by method.
+     * @param routePath The route path, with `:param`, `:param+` and `:param*` segments.
+     * @param routeModule The method handlers, `schema`, `config` and `openapi` of the route.
+     * @throws {Error} If a method of the route is already registered in code.
+     */
+    public addRoute(routePath: string, routeModule: Record<string, any>): void {
+        routePath = normalizePath('/' + cleanPrefix(routePath));
+        const existing = this.codeRoutes.get(routePath) ?? {};
+        for (const method of HTTP_METHODS) {
+            if (routeModule[method] && existing[method]) {
+                throw new Error(
+                    `Route '${method} ${routePath}' is already registered.`
+                );
+            }
+        }
+        this.codeRoutes.set(routePath, {
+            ...existing,
+            ...routeModule,
+            schema: { ...existing.schema, ...routeModule.schema },
+            openapi: { ...existing.openapi, ...routeModule.openapi },
+            config: { ...existing.config, ...routeModule.config },
+        });
+    }
+
+    /**
+     * Lists all route definitions in the trie.
+     * @returns {RouteDefinition[]} The loaded route definitions.
+     */
+    public listRoutes(): RouteDefinition[] {
+        const routes: RouteDefinition[] = [];
+        const visit = (node: TrieNode) => {
+            if (node.route) routes.push(node.route);
+            node.children.forEach(visit);
+            if (node.paramChild) visit(node.paramChild);
+            if (node.catchAllChild) visit(node.catchAllChild);
+        };
+        visit(this.root);
+        return routes;
+    }
+
     /**
      * Inserts a route definition into the trie structure.
      * @param routeDef The route definition to insert, containing path, handlers, middleware, schema, and OpenAPI metadata.
      * @throws {Error} If the route definition is invalid or causes a conflict in the trie.
      */
     private insertRoute(routeDef: RouteDefinition) {
-        let node = this.root;
-        const segments = routeDef.path.split('/').filter(Boolean);
-        for (const segment of segments) {
-            if (segment.startsWith(':')) {
+        const source = this.describeSource(routeDef);
+        const node = this.insertNode(routeDef.path, source);
+        if (node.route) {
+            throw new Error(
+                `Route conflict: '${routeDef.path}' is defined by both ${this.describeSource(node.route)} and ${source}.`
+            );
+        }
+        node.route = routeDef;
+    }
+
+    /**
+     * Describes where a route comes from, for conflict errors.
+     * @param routeDef The route definition.
+     * @returns The quoted file path, or a note that the route was registered in code.
+     */
+    private describeSource(routeDef: RouteDefinition): string {
+        return routeDef.file ? `'${routeDef.file}'` : 'a route registered in code';
+    }
+
+    /**
+     * Finds the trie node for a route path, creating the nodes along the way.
+     * Dynamic and catch-all segments at the same position must have the same
+     * parameter name, since they share a node.
+     * @param routePath The route path (e.g., "/users/:id").
+     * @param source Where the route comes from (see describeSource), for conflict errors.
+     * @returns {TrieNode} The node for the route path.
+     * @throws {Error} If a catch-all segment is not the last segment of the path,
+     * or a parameter is named differently than at the same position of another route.
+     */
+    private insertNode(routePath: string, source: string): TrieNode {
+        let node = this.nextRoot;
+        const segments = routePath.split('/').filter(Boolean);
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+            const catchAll = this.parseCatchAllSegment(segment);
+            if (catchAll) {
+                if (i !== segments.length - 1) {
+                    throw new Error(
+                        `Catch-all segment '${segment}' must be the last segment of route '${routePath}'.`
+                    );
+                }
+                if (!node.catchAllChild) {
+                    node.catchAllChild = {
+                        children: new Map(),
+                        paramName: catchAll.name,
+                        optional: catchAll.optional,
+                        paramSource: source,
+                    };
+                } else if (
+                    node.catchAllChild.paramName !== catchAll.name ||
+                    node.catchAllChild.optional !== catchAll.optional
+                ) {
+                    throw new Error(
+                        `Route conflict: catch-all segment '${segment}' of '${routePath}' in ${source} differs from ':${node.catchAllChild.paramName}${node.catchAllChild.optional ? '*' : '+'}' in ${node.catchAllChild.paramSource}.`
+                    );
+                }
+                node = node.catchAllChild;
+            } else if (segment.startsWith(':')) {
+                const paramName = segment.slice(1);
                 if (!node.paramChild) {
-                    node.paramChild = { children: new Map() };
+                    node.paramChild = {
+                        children: new Map(),
+                        paramName,
+                        paramSource: source,
+                    };
+                } else if (node.paramChild.paramName !== paramName) {
+                    throw new Error(
+                        `Route conflict: parameter '${segment}' of '${routePath}' in ${source} is named ':${node.paramChild.paramName}' in ${node.paramChild.paramSource}.`
+                    );
                 }
                 node = node.paramChild;
-                node.paramName = segment.slice(1);
             } else {
                 if (!node.children.has(segment)) {
                     node.children.set(segment, { children: new Map() });
@@ -88,37 +257,106 @@ export class ApiRouter {
                 node = node.children.get(segment)!;
             }
         }
-        node.route = routeDef;
+        return node;
+    }
+
+    /**
+     * Parses a catch-all route segment (e.g., ":path+" or ":slug*").
+     * @param segment The route segment to parse.
+     * @returns The parameter name and whether it is optional, or undefined if the segment is not a catch-all.
+     */
+    private parseCatchAllSegment(
+        segment: string
+    ): { name: string; optional: boolean } | undefined {
+        if (!segment.startsWith(ROUTE_CONSTANTS.DYNAMIC_SEGMENT_PREFIX)) {
+            return undefined;
+        }
+        if (segment.endsWith(ROUTE_CONSTANTS.CATCH_ALL_SUFFIX)) {
+            return { name: segment.slice(1, -1), optional: false };
+        }
+        if (segment.endsWith(ROUTE_CONSTANTS.OPTIONAL_CATCH_ALL_SUFFIX)) {
+            return { name: segment.slice(1, -1), optional: true };
+        }
+        return undefined;
     }
 
     /**
      * Recursively scans a directory for route modules (route.ts files) and loads them into the trie.
+     * Folder `config.ts` files are applied to every route below them.
      * @param dir The current directory path to scan.
      * @param basePath The base path used to construct route paths from the directory structure.
+     * @param inherited The folder configuration inherited from parent directories.
      * @returns {Promise<void>} A promise that resolves when the directory scan is complete.
-     * @throws {Error} If multiple dynamic folders are found at the same level or if directory access fails.
+     * @throws {Error} If multiple dynamic or catch-all folders are found at the same level or if directory access fails.
      */
     private async scanDirectory(
         dir: string,
-        basePath: string = ''
+        basePath: string = '',
+        inherited: FolderConfig = {}
     ): Promise<void> {
-        // Track if a dynamic folder has been found at this directory level
+        // Track if a dynamic or catch-all folder has been found at this directory level
         let dynamicFolderFound = false;
+        let catchAllFolderFound = false;
 
         try {
             const entries = await readdir(dir, { withFileTypes: true });
+
+            // Apply this folder's config.ts and middleware.ts (if any) on top of the inherited config
+            const fileNames = new Set(
+                entries
+                    .filter((entry) => entry.isFile())
+                    .map((entry) => entry.name)
+            );
+            let folderConfig = inherited;
+            if (fileNames.has(ROUTE_CONSTANTS.FOLDER_CONFIG_FILE)) {
+                folderConfig = await this.loadFolderConfig(
+                    path.join(dir, ROUTE_CONSTANTS.FOLDER_CONFIG_FILE),
+                    folderConfig
+                );
+            }
+            if (fileNames.has(ROUTE_CONSTANTS.FOLDER_MIDDLEWARE_FILE)) {
+                folderConfig = await this.loadFolderMiddleware(
+                    path.join(dir, ROUTE_CONSTANTS.FOLDER_MIDDLEWARE_FILE),
+                    folderConfig
+                );
+            }
+            if (fileNames.has(ROUTE_CONSTANTS.NOT_FOUND_FILE)) {
+                await this.loadFallbackModule(
+                    path.join(dir, ROUTE_CONSTANTS.NOT_FOUND_FILE),
+                    basePath,
+                    folderConfig,
+                    'notFound'
+                );
+            }
+            if (fileNames.has(ROUTE_CONSTANTS.METHOD_NOT_ALLOWED_FILE)) {
+                await this.loadFallbackModule(
+                    path.join(dir, ROUTE_CONSTANTS.METHOD_NOT_ALLOWED_FILE),
+                    basePath,
+                    folderConfig,
+                    'methodNotAllowed'
+                );
+            }
+
             for (const entry of entries) {
                 const entryPath = path.join(dir, entry.name);
                 const relativePath = path.join(basePath, entry.name);
 
                 if (entry.isDirectory()) {
-                    // Handle dynamic directories (e.g., [id])
-                    if (
+                    // Handle catch-all directories (e.g., [...path] or [[...slug]])
+                    if (this.parseCatchAllFolder(entry.name)) {
+                        if (catchAllFolderFound) {
+                            throw new Error(
+                                `Multiple catch-all route folders found in the same directory: '${entry.name}' conflicts with another catch-all folder in '${dir}'.`
+                            );
+                        }
+                        catchAllFolderFound = true;
+                    } else if (
                         entry.name.startsWith(
                             ROUTE_CONSTANTS.DYNAMIC_FOLDER_START
                         ) &&
                         entry.name.endsWith(ROUTE_CONSTANTS.DYNAMIC_FOLDER_END)
                     ) {
+                        // Handle dynamic directories (e.g., [id])
                         if (dynamicFolderFound) {
                             throw new Error(
                                 `Multiple dynamic route folders found in the same directory: '${entry.name}' conflicts with another dynamic folder in '${dir}'.`
@@ -126,9 +364,17 @@ export class ApiRouter {
                         }
                         dynamicFolderFound = true;
                     }
-                    await this.scanDirectory(entryPath, relativePath);
+                    await this.scanDirectory(
+                        entryPath,
+                        relativePath,
+                        folderConfig
+                    );
                 } else if (entry.isFile() && entry.name === 'route.ts') {
-                    await this.loadRouteModule(entryPath, relativePath);
+                    await this.loadRouteModule(
+                        entryPath,
+                        relativePath,
+                        folderConfig
+                    );
                 }
             }
         } catch (error) {
@@ -141,65 +387,99 @@ export class ApiRouter {
         }
     }
 
+    /**
+     * Loads a folder config module (config.ts) and merges it over the inherited config.
+     * @param entryPath The full file system path to the config module.
+     * @param inherited The folder configuration inherited from parent directories.
+     * @returns {Promise<FolderConfig>} The configuration for the folder and its subtree.
+     * @throws {Error} If the config module fails to load.
+     */
+    private async loadFolderConfig(
+        entryPath: string,
+        inherited: FolderConfig
+    ): Promise<FolderConfig> {
+        try {
+            const configModule = await importModule(entryPath);
+            const config: FolderConfig = configModule.config || {};
+            return {
+                ...inherited,
+                cors: mergeCors(inherited.cors, config.cors),
+            };
+        } catch (error) {
+            throw new Error(
+                `Failed to load folder config '${entryPath}': ${String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Loads a folder middleware module (middleware.ts) and appends its guards and
+     * middleware to the inherited middleware, so outer folders run first.
+     * Its `onError` hook is prepended instead, so inner folders handle errors first.
+     * @param entryPath The full file system path to the middleware module.
+     * @param inherited The folder configuration inherited from parent directories.
+     * @returns {Promise<FolderConfig>} The configuration for the folder and its subtree.
+     * @throws {Error} If the middleware module fails to load.
+     */
+    private async loadFolderMiddleware(
+        entryPath: string,
+        inherited: FolderConfig
+    ): Promise<FolderConfig> {
+        try {
+            const middlewareModule = await importModule(entryPath);
+            const guards = middlewareModule.guards
+                ? this.processGuardsConfig(middlewareModule.guards)
+                : [];
+            const middleware = middlewareModule.middleware
+                ? this.processMiddlewareConfig(middlewareModule.middleware)
+                : [];
+            const errorHooks = inherited.errorHooks || [];
+            return {
+                ...inherited,
+                middleware: [
+                    ...(inherited.middleware || []),
+                    ...guards,
+                    ...middleware,
+                ],
+                // Inner folders handle errors before outer folders
+                errorHooks:
+                    typeof middlewareModule.onError === 'function'
+                        ? [middlewareModule.onError, ...errorHooks]
+                        : errorHooks,
+            };
+        } catch (error) {
+            throw new Error(
+                `Failed to load folder middleware '${entryPath}': ${String(error)}`
+            );
+        }
+    }
+
     /**
      * Loads a route module from a file and inserts it into the trie.
      * @param entryPath The full file system path to the route module (route.ts).
      * @param relativePath The relative path used to construct the route path.
+     * @param inherited The folder configuration inherited from parent directories.
      * @returns {Promise<void>} A promise that resolves when the module is loaded and inserted.
      * @throws {Error} If the route module fails to load or is invalid.
      */
-        private async loadRouteModule(
+    private async loadRouteModule(
         entryPath: string,
-        relativePath: string
+        relativePath: string,
+        inherited: FolderConfig = {}
     ): Promise<void> {
         try {
             const routePath = this.convertFilePathToRoute(relativePath);
             console.info('Loading route:', routePath);
-            const modulePath = path.resolve(entryPath);
-            const routeModule = await import(modulePath);
-    
-            const handlers: { [method: string]: RequestHandler } = {};
-            for (const method of HTTP_METHODS) {
-                if (typeof routeModule[method] === 'function') {
-                    handlers[method] = routeModule[method];
-                }
-            }
-    
-            // Process route configuration
-            const routeConfig = routeModule.config || {};
-            
-            // Process middleware
-            let middlewareArray: Middleware[] = [];
-            
-            // Add middleware from the middleware array (legacy support)
-            if (Array.isArray(routeModule.middleware)) {
-                middlewareArray = [...routeModule.middleware];
-            }
-            
-            // Add middleware from route config
-            if (routeConfig.middleware) {
-                const configMiddleware = this.processMiddlewareConfig(routeConfig.middleware);
-                middlewareArray = [...middlewareArray, ...configMiddleware];
-            }
-            
-            // Process guards
-            let guardsArray: Middleware[] = [];
-            if (routeConfig.guards) {
-                guardsArray = this.processGuardsConfig(routeConfig.guards);
-            }
-            
-            // Combine guards and middleware (guards run first)
-            const combinedMiddleware = [...guardsArray, ...middlewareArray];
-    
-            const routeDef: RouteDefinition = {
-                path: routePath,
-                handlers,
-                middleware: combinedMiddleware,
-                schema: routeModule.schema,
-                openapi: routeModule.openapi,
-                config: routeConfig,
-            };
-    
+            const routeModule = this.normalizeRouteModule(
+                await importModule(entryPath)
+            );
+            const routeDef = this.createRouteDefinition(
+                routeModule,
+                routePath,
+                inherited
+            );
+            routeDef.file = entryPath;
+
             this.insertRoute(routeDef);
         } catch (error) {
             throw new Error(
@@ -207,7 +487,176 @@ export class ApiRouter {
             );
         }
     }
-    
+
+    /**
+     * Loads a fallback module (not-found.ts or method-not-allowed.ts) and stores
+     * it on the folder's trie node, so it handles unmatched requests in the folder's subtree.
+     * A default-exported function handles every method; named method exports override it.
+     * @param entryPath The full file system path to the fallback module.
+     * @param relativePath The relative path of the folder containing the module.
+     * @param inherited The folder configuration of the folder.
+     * @param kind Whether the module handles unmatched paths or unsupported methods.
+     * @returns {Promise<void>} A promise that resolves when the module is loaded and stored.
+     * @throws {Error} If the fallback module fails to load.
+     */
+    private async loadFallbackModule(
+        entryPath: string,
+        relativePath: string,
+        inherited: FolderConfig,
+        kind: 'notFound' | 'methodNotAllowed'
+    ): Promise<void> {
+        try {
+            const routePath = this.convertFilePathToRoute(relativePath);
+            const fallbackModule = await importModule(entryPath);
+            const defaultHandlers: { [method: string]: RequestHandler } = {};
+            if (typeof fallbackModule.default === 'function') {
+                for (const method of HTTP_METHODS) {
+                    defaultHandlers[method] = fallbackModule.default;
+                }
+            }
+            const routeDef = this.createRouteDefinition(
+                {
+                    ...defaultHandlers,
+                    ...this.normalizeRouteModule(fallbackModule),
+                },
+                routePath,
+                inherited
+            );
+            routeDef.file = entryPath;
+
+            this.insertNode(routePath, this.describeSource(routeDef))[kind] =
+                routeDef;
+        } catch (error) {
+            throw new Error(
+                `Failed to load fallback module '${entryPath}': ${String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Creates a route definition from a route module's exports.
+     * @param routeModule The normalized route module.
+     * @param routePath The route path of the module.
+     * @param inherited The folder configuration inherited from parent directories.
+     * @returns {RouteDefinition} The route definition.
+     */
+    private createRouteDefinition(
+        routeModule: Record<string, any>,
+        routePath: string,
+        inherited: FolderConfig
+    ): RouteDefinition {
+        const handlers: { [method: string]: RequestHandler } = {};
+        for (const method of HTTP_METHODS) {
+            if (typeof routeModule[method] === 'function') {
+                handlers[method] = routeModule[method];
+            }
+        }
+
+        // Process route configuration
+        const routeConfig = routeModule.config || {};
+
+        // Synthesize HEAD from GET unless the route exports its own or opts out
+        const implicitMethods: string[] = [];
+        if (
+            handlers.GET &&
+            !handlers.HEAD &&
+            routeConfig.autoHead !== false &&
+            routeConfig.get?.autoHead !== false
+        ) {
+            handlers.HEAD = this.createHeadHandler(handlers.GET);
+            implicitMethods.push('HEAD');
+        }
+
+        // Process middleware
+        let middlewareArray: Middleware[] = [];
+
+        // Add middleware from the middleware array (legacy support)
+        if (Array.isArray(routeModule.middleware)) {
+            middlewareArray = [...routeModule.middleware];
+        }
+
+        // Add middleware from route config
+        if (routeConfig.middleware) {
+            const configMiddleware = this.processMiddlewareConfig(
+                routeConfig.middleware
+            );
+            middlewareArray = [...middlewareArray, ...configMiddleware];
+        }
+
+        // Process guards
+        let guardsArray: Middleware[] = [];
+        if (routeConfig.guards) {
+            guardsArray = this.processGuardsConfig(routeConfig.guards);
+        }
+
+        // Combine guards and middleware (guards run first)
+        const combinedMiddleware = [...guardsArray, ...middlewareArray];
+
+        // Guards and middleware of a method's own config (`config.get`, ...)
+        const methodMiddleware: { [method: string]: Middleware[] } = {};
+        for (const method of HTTP_METHODS) {
+            const methodConfig = routeConfig[method.toLowerCase()];
+            if (methodConfig?.middleware || methodConfig?.guards) {
+                methodMiddleware[method.toLowerCase()] = [
+                    ...(methodConfig.guards ? this.processGuardsConfig(methodConfig.guards) : []),
+                    ...(methodConfig.middleware
+                        ? this.processMiddlewareConfig(methodConfig.middleware)
+                        : []),
+                ];
+            }
+        }
+
+        return {
+            path: routePath,
+            handlers,
+            middleware: combinedMiddleware,
+            methodMiddleware,
+            schema: routeModule.schema,
+            openapi: routeModule.openapi,
+            config: routeConfig,
+            cors: mergeCors(inherited.cors, routeConfig.cors),
+            inheritedMiddleware: inherited.middleware || [],
+            implicitMethods,
+            errorHooks: [
+                ...(typeof routeModule.onError === 'function'
+                    ? [routeModule.onError]
+                    : []),
+                ...(inherited.errorHooks || []),
+            ],
+        };
+    }
+
+    /**
+     * Merges a route definition created with `defineRoute` (default export)
+     * with the module's named exports. Named exports take precedence.
+     * @param routeModule The imported route module.
+     * @returns The route module with the definition's fields as top-level exports.
+     */
+    private normalizeRouteModule(routeModule: any): Record<string, any> {
+        const definition = routeModule.default;
+        if (!definition || typeof definition !== 'object') {
+            return routeModule;
+        }
+        return { ...definition, ...routeModule };
+    }
+
+    /**
+     * Creates a HEAD handler from a GET handler.
+     * The GET handler runs as usual, and its status and headers are returned without a body.
+     * @param getHandler The GET handler of the route.
+     * @returns A request handler for HEAD requests.
+     */
+    private createHeadHandler(getHandler: RequestHandler): RequestHandler {
+        return async (req, res) => {
+            const response = await getHandler(req, res);
+            return new Response(null, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers,
+            });
+        };
+    }
+
     /**
      * Processes middleware configuration and returns an array of middleware functions
      * @param middlewareConfig The middleware configuration object or array
@@ -286,8 +735,52 @@ export class ApiRouter {
         return guardsArray;
     }
 
+    /**
+     * Parses a catch-all folder name (e.g., "[...path]" or "[[...slug]]").
+     * @param folderName The folder name to parse.
+     * @returns The parameter name and whether it is optional, or undefined if the folder is not a catch-all.
+     */
+    private parseCatchAllFolder(
+        folderName: string
+    ): { name: string; optional: boolean } | undefined {
+        const {
+            OPTIONAL_CATCH_ALL_START,
+            OPTIONAL_CATCH_ALL_END,
+            DYNAMIC_FOLDER_START,
+            DYNAMIC_FOLDER_END,
+            CATCH_ALL_PREFIX,
+        } = ROUTE_CONSTANTS;
+
+        if (
+            folderName.startsWith(OPTIONAL_CATCH_ALL_START + CATCH_ALL_PREFIX) &&
+            folderName.endsWith(OPTIONAL_CATCH_ALL_END)
+        ) {
+            return {
+                name: folderName.slice(
+                    OPTIONAL_CATCH_ALL_START.length + CATCH_ALL_PREFIX.length,
+                    -OPTIONAL_CATCH_ALL_END.length
+                ),
+                optional: true,
+            };
+        }
+        if (
+            folderName.startsWith(DYNAMIC_FOLDER_START + CATCH_ALL_PREFIX) &&
+            folderName.endsWith(DYNAMIC_FOLDER_END)
+        ) {
+            return {
+                name: folderName.slice(
+                    DYNAMIC_FOLDER_START.length + CATCH_ALL_PREFIX.length,
+                    -DYNAMIC_FOLDER_END.length
+                ),
+                optional: false,
+            };
+        }
+        return undefined;
+    }
+
     /**
      * Converts a file path to a route path by processing dynamic segments and applying the prefix.
+     * Catch-all folders become ":param+" and optional catch-all folders become ":param*".
      * @param filePath The file path to convert (e.g., "users/[id]/route.ts").
      * @returns {string} The converted route path (e.g., "/users/:id").
      */
@@ -311,11 +804,21 @@ export class ApiRouter {
             )
                 continue;
 
-            // Convert dynamic segments from [param] to :param
-            if (
+            // Convert catch-all segments from [...param] to :param+ and [[...param]] to :param*
+            const catchAll = this.parseCatchAllFolder(segment);
+            if (catchAll) {
+                resultSegments.push(
+                    ROUTE_CONSTANTS.DYNAMIC_SEGMENT_PREFIX +
+                        catchAll.name +
+                        (catchAll.optional
+                            ? ROUTE_CONSTANTS.OPTIONAL_CATCH_ALL_SUFFIX
+                            : ROUTE_CONSTANTS.CATCH_ALL_SUFFIX)
+                );
+            } else if (
                 segment.startsWith(ROUTE_CONSTANTS.DYNAMIC_FOLDER_START) &&
                 segment.endsWith(ROUTE_CONSTANTS.DYNAMIC_FOLDER_END)
             ) {
+                // Convert dynamic segments from [param] to :param
                 const param = segment.slice(1, -1);
                 resultSegments.push(
                     ROUTE_CONSTANTS.DYNAMIC_SEGMENT_PREFIX + param
@@ -344,13 +847,21 @@ export class ApiRouter {
 
     /**
      * Resolves a request to a route definition and its parameters.
+     * Static children are preferred over dynamic ones, and catch-all segments
+     * are only used when no more specific route matches. If a branch dead-ends,
+     * resolution backtracks into the next candidate branch.
+     * If the path exists but has no handler for the request method, no route is
+     * returned, `pathRoute` holds the route matching the path and `allowedMethods`
+     * lists the methods it answers.
      * @param request The incoming HTTP request to resolve.
-     * @returns {{ route?: RouteDefinition; params: Record<string, string> }} An object containing the matched route (if any) and extracted parameters.
+     * @returns {{ route?: RouteDefinition; params: RouteParams; pathRoute?: RouteDefinition; allowedMethods?: string[] }} An object containing the matched route (if any), extracted parameters and the allowed methods when the method is not supported.
      * @throws {Error} If the request URL is malformed.
      */
     public resolve(request: Request): {
         route?: RouteDefinition;
-        params: Record<string, string>;
+        params: RouteParams;
+        pathRoute?: RouteDefinition;
+        allowedMethods?: string[];
     } {
         try {
             const url = new URL(request.url);
@@ -358,26 +869,221 @@ export class ApiRouter {
             const method = request.method.toUpperCase();
             const segments = reqPath.split('/').filter(Boolean);
 
-            let node = this.root;
-            const params: Record<string, string> = {};
-
-            for (const segment of segments) {
-                if (node.children.has(segment)) {
-                    node = node.children.get(segment)!;
-                } else if (node.paramChild) {
-                    node = node.paramChild;
-                    params[node.paramName!] = segment;
-                } else {
-                    return { params: {} };
-                }
+            // First look for a route that handles the request method
+            const match = this.matchNode(
+                this.root,
+                segments,
+                0,
+                {},
+                (route) => typeof route.handlers[method] === 'function'
+            );
+            if (match) {
+                return match;
             }
 
-            if (node.route && node.route.handlers[method]) {
-                return { route: node.route, params };
+            // Then check whether the path exists at all, to report a 405
+            const pathMatch = this.matchNode(
+                this.root,
+                segments,
+                0,
+                {},
+                () => true
+            );
+            if (pathMatch) {
+                return {
+                    params: {},
+                    pathRoute: pathMatch.route,
+                    allowedMethods: this.getAllowedMethods(pathMatch.route),
+                };
             }
             return { params: {} };
         } catch (error) {
             return { params: {} };
         }
     }
+
+    /**
+     * Finds the nearest fallback handler (not-found.ts or method-not-allowed.ts)
+     * for a request that has no matching route.
+     * The request path is followed through the trie like matchNode does,
+     * preferring static over dynamic and catch-all segments and backtracking
+     * into the next candidate when a branch has no fallback, and the deepest
+     * fallback on the way that handles the request's method is returned.
+     * @param request The incoming HTTP request.
+     * @param kind Whether to look for a handler for unmatched paths or unsupported methods.
+     * @returns {RouteDefinition | undefined} The fallback route definition, if any.
+     */
+    public findFallback(
+        request: Request,
+        kind: 'notFound' | 'methodNotAllowed'
+    ): RouteDefinition | undefined {
+        try {
+            const url = new URL(request.url);
+            const segments = normalizePath(url.pathname)
+                .split('/')
+                .filter(Boolean);
+
+            // Fallbacks that only export other methods are skipped
+            const method = request.method.toUpperCase();
+            const accept = (route: RouteDefinition) =>
+                typeof route.handlers[method] === 'function';
+
+            return this.matchFallback(this.root, segments, 0, kind, accept);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns the HTTP methods a route answers, as advertised in the `Allow` header.
+     * This is every exported method, HEAD when synthesized from GET and OPTIONS,
+     * unless the route overrides the list through `config.allow`.
+     * @param route The route definition.
+     * @returns {string[]} The list of allowed HTTP methods.
+     */
+    public getAllowedMethods(route: RouteDefinition): string[] {
+        if (Array.isArray(route.config?.allow)) {
+            return route.config.allow.map((method: string) =>
+                method.toUpperCase()
+            );
+        }
+        const methods = HTTP_METHODS.filter(
+            (method) => typeof route.handlers[method] === 'function'
+        );
+        if (!methods.includes('OPTIONS')) {
+            methods.push('OPTIONS');
+        }
+        return methods;
+    }
+
+    /**
+     * Recursively finds the deepest fallback for the remaining path segments
+     * below a trie node. Children are tried in the same order as in matchNode
+     * (static, then dynamic, then catch-all), backtracking into the next
+     * candidate when a branch has no fallback; the node's own fallback is
+     * used when none of them has one.
+     * @param node The current node in the trie.
+     * @param segments The request path segments.
+     * @param index The index of the segment to match at this node.
+     * @param kind Whether to look for a handler for unmatched paths or unsupported methods.
+     * @param accept Predicate deciding whether a fallback handles the request.
+     * @returns The fallback route definition, if any.
+     */
+    private matchFallback(
+        node: TrieNode,
+        segments: string[],
+        index: number,
+        kind: 'notFound' | 'methodNotAllowed',
+        accept: (route: RouteDefinition) => boolean
+    ): RouteDefinition | undefined {
+        const own = node[kind];
+        const fallback = own && accept(own) ? own : undefined;
+        const catchAll = node.catchAllChild;
+        const catchAllFallback = catchAll?.[kind];
+
+        if (index === segments.length) {
+            // Optional catch-all segments also match zero segments
+            if (catchAll?.optional && catchAllFallback && accept(catchAllFallback)) {
+                return catchAllFallback;
+            }
+            return fallback;
+        }
+
+        const segment = segments[index];
+
+        // 1. Static child, then 2. dynamic child
+        for (const child of [node.children.get(segment), node.paramChild]) {
+            if (!child) continue;
+            const match = this.matchFallback(
+                child,
+                segments,
+                index + 1,
+                kind,
+                accept
+            );
+            if (match) return match;
+        }
+
+        // 3. Catch-all child consumes the rest of the path
+        if (catchAllFallback && accept(catchAllFallback)) {
+            return catchAllFallback;
+        }
+
+        return fallback;
+    }
+
+    /**
+     * Recursively matches the remaining path segments against a trie node.
+     * Children are tried in priority order (static, then dynamic, then catch-all),
+     * backtracking into the next candidate when a branch does not produce a match.
+     * @param node The current node in the trie.
+     * @param segments The request path segments.
+     * @param index The index of the segment to match at this node.
+     * @param params The parameters collected so far.
+     * @param accept Predicate deciding whether a route found at the end of a branch is a match.
+     * @returns The matched route and its parameters, or undefined if no branch matches.
+     */
+    private matchNode(
+        node: TrieNode,
+        segments: string[],
+        index: number,
+        params: RouteParams,
+        accept: (route: RouteDefinition) => boolean
+    ): { route: RouteDefinition; params: RouteParams } | undefined {
+        const catchAll = node.catchAllChild;
+
+        if (index === segments.length) {
+            if (node.route && accept(node.route)) {
+                return { route: node.route, params };
+            }
+            // Optional catch-all segments also match zero segments
+            if (catchAll?.optional && catchAll.route && accept(catchAll.route)) {
+                return {
+                    route: catchAll.route,
+                    params: { ...params, [catchAll.paramName!]: [] },
+                };
+            }
+            return undefined;
+        }
+
+        const segment = segments[index];
+
+        // 1. Static child
+        const staticChild = node.children.get(segment);
+        if (staticChild) {
+            const match = this.matchNode(
+                staticChild,
+                segments,
+                index + 1,
+                params,
+                accept
+            );
+            if (match) return match;
+        }
+
+        // 2. Dynamic child
+        if (node.paramChild) {
+            const match = this.matchNode(
+                node.paramChild,
+                segments,
+                index + 1,
+                { ...params, [node.paramChild.paramName!]: segment },
+                accept
+            );
+            if (match) return match;
+        }
+
+        // 3. Catch-all child consumes the rest of the path
+        if (catchAll?.route && accept(catchAll.route)) {
+            return {
+                route: catchAll.route,
+                params: {
+                    ...params,
+                    [catchAll.paramName!]: segments.slice(index),
+                },
+            };
+        }
+
+        return undefined;
+    }
 }
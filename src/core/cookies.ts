@@ -1,36 +1,34 @@
-import type { apiRequest } from "@src/types";
+import type { apiRequest, CookieOptions } from "@src/types";
 
 export function getCookie(req: apiRequest, name: string) {
     if (req.cookies?.get) return req.cookies.get(name);
     // Fallback: parse from header
     const cookieHeader = req.headers?.get?.('cookie') || '';
-    const cookies = Object.fromEntries(cookieHeader.split(';').map((c: string) => c.trim().split('=')));
-    return cookies[name];
+    for (const cookie of cookieHeader.split(';')) {
+        // Split on the first '=' only, as values may contain '=' (e.g. base64)
+        const eqIdx = cookie.indexOf('=');
+        if (eqIdx < 0 || cookie.slice(0, eqIdx).trim() !== name) continue;
+        const value = cookie.slice(eqIdx + 1).trim();
+        try {
+            return decodeURIComponent(value);
+        } catch {
+            return value;
+        }
+    }
+    return undefined;
 }
 
-export function setCookie(req: any, name: string, value: string, options: any = {}) {
+export function setCookie(req: any, name: string, value: string, options: CookieOptions = {}) {
     if (req.cookies?.set) return req.cookies.set(name, value, options);
 
-    // Fallback: set header directly on response
-    const opts = {
-        path: '/',
-        ...options,
-    };
-    let cookie = `${name}=${encodeURIComponent(value)}`;
-    if (opts.maxAge) cookie += `; Max-Age=${opts.maxAge}`;
-    if (opts.domain) cookie += `; Domain=${opts.domain}`;
-    if (opts.path) cookie += `; Path=${opts.path}`;
-    if (opts.httpOnly) cookie += `; HttpOnly`;
-    if (opts.secure) cookie += `; Secure`;
-    if (opts.sameSite) cookie += `; SameSite=${opts.sameSite}`;
-
-    // Set header on response (assumes req.res.header exists)
-    if (req.res?.header) {
-        req.res.header('Set-Cookie', cookie);
+    // Fallback: add the cookie to the response of the request, which keeps
+    // every cookie set on it (see HttpResponse.cookie)
+    if (req.res?.cookie) {
+        req.res.cookie(name, value, options);
     }
 }
 
-export function deleteCookie(req: any, name: string, options: any = {}) {
+export function deleteCookie(req: any, name: string, options: CookieOptions = {}) {
     if (req.cookies?.delete) return req.cookies.delete(name, options);
     // Fallback: set cookie with expired date
     setCookie(req, name, '', { ...options, maxAge: 0 });
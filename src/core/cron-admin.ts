@@ -0,0 +1,116 @@
+import { BadRequest, Conflict, MethodNotAllowed, NotFound } from '@core/errors.js';
+
+// Import types
+import type { CronScheduler } from '@core/cron-scheduler.js';
+import type { CronJob, apiRequest, apiResponse } from '@Types';
+
+/**
+ * The actions that can be posted to a job, e.g. `POST /cron/cleanup/run`.
+ */
+const JOB_ACTIONS = ['run', 'pause', 'resume'];
+
+/**
+ * Describes a job for the admin endpoints.
+ * @param job The job.
+ * @returns The JSON representation of the job and its run state.
+ */
+function describeJob(job: CronJob) {
+    const { config, lastError } = job;
+    return {
+        name: job.name,
+        schedule: config.useTime ? null : config.cronTime ?? null,
+        timeBetween: config.useTime ? config.timeBetween ?? null : null,
+        timeZone: config.timeZone ?? null,
+        enabled: job.enabled,
+        running: job.running,
+        nextRun: job.nextRun?.toISOString() ?? null,
+        lastRun: job.lastRun?.toISOString() ?? null,
+        lastDuration: job.lastDuration ?? null,
+        lastError:
+            lastError === undefined
+                ? null
+                : lastError instanceof Error
+                ? lastError.message
+                : String(lastError),
+    };
+}
+
+/**
+ * Handles a request to the cron admin endpoints (see CronAdminOptions).
+ * GET requests list the jobs or show one; POST requests run, pause or resume
+ * a job, with the action as the last path segment.
+ * @param scheduler The cron scheduler.
+ * @param req The request, below `basePath`.
+ * @param res The response.
+ * @param basePath The path the endpoints are mounted at, e.g. "/cron".
+ * @returns The response.
+ * @throws {HttpError} If the path is malformed, the job doesn't exist, is already running or the method is not allowed.
+ */
+export async function handleCronAdminRequest(
+    scheduler: CronScheduler,
+    req: apiRequest,
+    res: apiResponse,
+    basePath: string
+): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    let segments: string[];
+    try {
+        segments = pathname
+            .slice(basePath.length)
+            .split('/')
+            .filter(Boolean)
+            .map(decodeURIComponent);
+    } catch {
+        throw new BadRequest('Malformed cron job path', { code: 'INVALID_PATH' });
+    }
+    const method = req.method.toUpperCase();
+
+    if (method === 'GET' || method === 'HEAD') {
+        if (segments.length === 0) {
+            return res.json({ jobs: scheduler.cronJobs.map(describeJob) });
+        }
+        return res.json({ job: describeJob(findJob(scheduler, segments)) });
+    }
+
+    const action = segments[segments.length - 1];
+    if (method !== 'POST' || !JOB_ACTIONS.includes(action)) {
+        throw new MethodNotAllowed(undefined, {
+            headers: { Allow: JOB_ACTIONS.includes(action) ? 'GET, HEAD, POST' : 'GET, HEAD' },
+        });
+    }
+
+    const job = findJob(scheduler, segments.slice(0, -1));
+    if (action === 'run') {
+        if (job.running) {
+            throw new Conflict(`Cron job ${job.name} is already running`, {
+                code: 'CRON_JOB_RUNNING',
+            });
+        }
+        // Respond right away; the run's outcome shows up as lastError/lastDuration
+        void scheduler.runJob(job);
+        return res.status(202).json({ job: describeJob(job) });
+    }
+
+    if (action === 'pause') {
+        scheduler.pause(job);
+    } else {
+        scheduler.resume(job);
+    }
+    return res.json({ job: describeJob(job) });
+}
+
+/**
+ * Finds a job by the path segments of its name.
+ * @param scheduler The cron scheduler.
+ * @param segments The segments of the job name, e.g. ["cleanup", "sessions"].
+ * @returns The job.
+ * @throws {NotFound} If there is no job with the name.
+ */
+function findJob(scheduler: CronScheduler, segments: string[]): CronJob {
+    const name = '/' + segments.join('/');
+    const job = scheduler.getJob(name);
+    if (!job) {
+        throw new NotFound(`Cron job ${name} not found`, { code: 'CRON_JOB_NOT_FOUND' });
+    }
+    return job;
+}
@@ -0,0 +1,355 @@
+// Import stuff from node
+import { readdir } from 'fs/promises';
+import * as path from 'path';
+
+// Import utils
+import {
+    ROUTE_CONSTANTS,
+    importModule,
+    invalidateModule,
+    invalidateDirectory,
+    logRouteChanges,
+    parseCronExpression,
+    nextCronDate,
+    isValidTimeZone,
+    type CronExpression,
+} from '@utils';
+import { parse as parseDuration } from '@utils/ms.js';
+
+// Import types
+import type { CronConfig, CronJob } from '@Types';
+
+/**
+ * The longest delay setTimeout supports. Longer waits are split up.
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * CronScheduler class for running jobs from `cron.ts` files.
+ * Each `cron.ts` file exports a `cronConfig` and a default function, which
+ * runs on a cron schedule (`cronTime`, in `timeZone`) or every `timeBetween`.
+ * A job never runs twice at the same time: a run that is due while the
+ * previous one is still going is skipped.
+ */
+export class CronScheduler {
+    /** The loaded jobs */
+    private jobs: CronJob[] = [];
+
+    /** Jobs being loaded by loadJobs, swapped in once complete */
+    private nextJobs: CronJob[] = [];
+
+    /** Parsed cron expressions and intervals of the jobs */
+    private schedules: WeakMap<CronJob, CronExpression | number> = new WeakMap();
+
+    /** Pending timers of the jobs */
+    private timers: Map<CronJob, ReturnType<typeof setTimeout>> = new Map();
+
+    /** Runs in progress, awaited by stop */
+    private runs: Map<CronJob, Promise<void>> = new Map();
+
+    /** Running jobs a skipped run has been logged for, so long runs warn once */
+    private overlapsLogged: Set<CronJob> = new Set();
+
+    /** Whether the scheduler has been started */
+    private started = false;
+
+    /**
+     * Constructor for the CronScheduler class.
+     * @param cronDir The directory path where cron modules are located.
+     * @throws {Error} If the cron directory path is not provided.
+     */
+    constructor(private cronDir: string) {
+        if (!cronDir) {
+            throw new Error('Cron directory path is required');
+        }
+    }
+
+    /**
+     * Getter for the loaded jobs.
+     * @returns The loaded jobs with their run state.
+     */
+    get cronJobs(): CronJob[] {
+        return this.jobs;
+    }
+
+    /**
+     * Loads all jobs from the cron directory.
+     * The jobs are loaded into a new list which replaces the current one only
+     * once it is complete.
+     * @returns {Promise<void>} A promise that resolves when all jobs are loaded.
+     * @throws {Error} If a job fails to load or has an invalid schedule.
+     */
+    public async loadJobs(): Promise<void> {
+        this.nextJobs = [];
+        try {
+            await this.scanDirectory(this.cronDir);
+            this.jobs = this.nextJobs;
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to load cron jobs: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Reloads all jobs, re-importing every module in the cron directory. Running jobs
+     * finish before the new jobs are scheduled. The current jobs stay in
+     * place if reloading fails.
+     * @param changedFiles The files that changed since the jobs were last loaded.
+     * @returns {Promise<void>} A promise that resolves when the jobs are reloaded.
+     */
+    public async reload(changedFiles: string[] = []): Promise<void> {
+        invalidateDirectory(this.cronDir);
+        changedFiles.forEach((file) => invalidateModule(file));
+        const before = this.jobs.map((job) => job.name);
+        const wasStarted = this.started;
+        await this.stop();
+        try {
+            await this.loadJobs();
+        } catch (error) {
+            console.error('Failed to reload cron jobs, keeping previous jobs:', error);
+        }
+        if (wasStarted) {
+            this.start();
+        }
+        logRouteChanges(
+            'Cron',
+            before,
+            this.jobs.map((job) => job.name)
+        );
+    }
+
+    /**
+     * Starts scheduling the enabled jobs, running those with `runOnStart` right away.
+     */
+    public start(): void {
+        this.started = true;
+        for (const job of this.jobs) {
+            if (!job.enabled) continue;
+            if (job.config.runOnStart) {
+                void this.runJob(job);
+            }
+            this.scheduleJob(job);
+        }
+    }
+
+    /**
+     * Stops scheduling jobs and waits for running jobs to finish.
+     * @returns {Promise<void>} A promise that resolves when no job is running.
+     */
+    public async stop(): Promise<void> {
+        this.started = false;
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+        this.jobs.forEach((job) => (job.nextRun = undefined));
+        await Promise.all(this.runs.values());
+    }
+
+    /**
+     * Finds a job by name.
+     * @param name The job name, e.g. "/cleanup/sessions".
+     * @returns The job, or undefined if there is none with the name.
+     */
+    public getJob(name: string): CronJob | undefined {
+        return this.jobs.find((job) => job.name === name);
+    }
+
+    /**
+     * Pauses a job: it stays loaded but is not scheduled until resumed.
+     * A run in progress is not interrupted.
+     * @param job The job to pause.
+     */
+    public pause(job: CronJob): void {
+        job.enabled = false;
+        job.nextRun = undefined;
+        const timer = this.timers.get(job);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(job);
+        }
+    }
+
+    /**
+     * Resumes a paused job, scheduling its next run.
+     * @param job The job to resume.
+     */
+    public resume(job: CronJob): void {
+        if (job.enabled) return;
+        job.enabled = true;
+        this.scheduleJob(job);
+    }
+
+    /**
+     * Runs a job now, unless it is already running.
+     * Errors are recorded as the job's `lastError` and logged.
+     * @param job The job to run.
+     * @returns {Promise<boolean>} Whether the job ran (false if it was already running).
+     */
+    public async runJob(job: CronJob): Promise<boolean> {
+        if (job.running) {
+            if (!this.overlapsLogged.has(job)) {
+                this.overlapsLogged.add(job);
+                console.warn(`Cron job ${job.name} is still running, skipping runs until it is done.`);
+            }
+            return false;
+        }
+
+        job.running = true;
+        job.lastRun = new Date();
+        const start = performance.now();
+        const run = (async () => {
+            try {
+                await job.handler();
+                job.lastError = undefined;
+            } catch (error) {
+                job.lastError = error;
+                console.error(`Cron job ${job.name} failed:`, error);
+            } finally {
+                job.lastDuration = performance.now() - start;
+                job.running = false;
+                this.runs.delete(job);
+                this.overlapsLogged.delete(job);
+            }
+        })();
+        this.runs.set(job, run);
+        await run;
+        return true;
+    }
+
+    /**
+     * Schedules the next run of a job.
+     * @param job The job to schedule.
+     */
+    private scheduleJob(job: CronJob): void {
+        const schedule = this.schedules.get(job);
+        if (!this.started || !job.enabled || schedule === undefined) return;
+
+        const now = new Date();
+        job.nextRun =
+            typeof schedule === 'number'
+                ? new Date(now.getTime() + schedule)
+                : nextCronDate(schedule, now, job.config.timeZone);
+        if (!job.nextRun) {
+            console.warn(`Cron job ${job.name} has no upcoming run.`);
+            return;
+        }
+        this.setTimer(job, job.nextRun);
+    }
+
+    /**
+     * Sets the timer for a job's next run, in steps if it is too far away for setTimeout.
+     * @param job The job.
+     * @param at When the job should run.
+     */
+    private setTimer(job: CronJob, at: Date): void {
+        const delay = at.getTime() - Date.now();
+        const timer = setTimeout(
+            () => {
+                this.timers.delete(job);
+                if (at.getTime() > Date.now()) {
+                    this.setTimer(job, at);
+                    return;
+                }
+                void this.runJob(job);
+                this.scheduleJob(job);
+            },
+            Math.max(0, Math.min(delay, MAX_TIMEOUT))
+        );
+        this.timers.set(job, timer);
+    }
+
+    /**
+     * Recursively scans a directory for cron modules (cron.ts files).
+     * @param dir The current directory path to scan.
+     * @param basePath The path of the directory relative to the cron directory.
+     * @returns {Promise<void>} A promise that resolves when the directory scan is complete.
+     */
+    private async scanDirectory(
+        dir: string,
+        basePath: string = ''
+    ): Promise<void> {
+        const entries = await readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await this.scanDirectory(
+                    entryPath,
+                    path.join(basePath, entry.name)
+                );
+            } else if (
+                entry.isFile() &&
+                entry.name === ROUTE_CONSTANTS.CRON_FILE
+            ) {
+                await this.loadJobModule(entryPath, basePath);
+            }
+        }
+    }
+
+    /**
+     * Loads a cron module and validates its schedule.
+     * @param entryPath The full file system path to the cron module (cron.ts).
+     * @param basePath The path of its folder relative to the cron directory.
+     * @returns {Promise<void>} A promise that resolves when the job is loaded.
+     * @throws {Error} If the module has no default function or an invalid schedule.
+     */
+    private async loadJobModule(
+        entryPath: string,
+        basePath: string
+    ): Promise<void> {
+        const name = '/' + basePath.split(path.sep).filter(Boolean).join('/');
+        try {
+            const cronModule = await importModule(entryPath);
+            if (typeof cronModule.default !== 'function') {
+                throw new Error('cron.ts must export a default function');
+            }
+            const config: CronConfig = cronModule.cronConfig || {};
+            const job: CronJob = {
+                name,
+                file: entryPath,
+                config,
+                handler: cronModule.default,
+                enabled: config.enabled !== false,
+                running: false,
+            };
+
+            this.schedules.set(job, this.parseSchedule(config));
+            console.info('Loading cron job:', name);
+            this.nextJobs.push(job);
+        } catch (error) {
+            throw new Error(
+                `Failed to load cron job '${entryPath}': ${String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Parses the schedule of a job's config.
+     * @param config The job's configuration.
+     * @returns The parsed cron expression, or the interval in milliseconds if `useTime` is set.
+     * @throws {Error} If the schedule is missing or invalid.
+     */
+    private parseSchedule(config: CronConfig): CronExpression | number {
+        if (config.useTime) {
+            const interval =
+                typeof config.timeBetween === 'number'
+                    ? config.timeBetween
+                    : config.timeBetween
+                    ? parseDuration(config.timeBetween)
+                    : NaN;
+            if (!(interval > 0)) {
+                throw new Error(
+                    `Invalid timeBetween '${config.timeBetween}': expected a positive duration like '15m'`
+                );
+            }
+            return interval;
+        }
+
+        if (!config.cronTime) {
+            throw new Error('cronConfig needs a cronTime, or useTime with timeBetween');
+        }
+        if (config.timeZone && !isValidTimeZone(config.timeZone)) {
+            throw new Error(`Unknown time zone '${config.timeZone}'`);
+        }
+        return parseCronExpression(config.cronTime);
+    }
+}
@@ -0,0 +1,27 @@
+// Import types
+import type { PluginDefinition } from '@Types';
+
+/**
+ * Defines a named plugin, which can declare the plugins it depends on and be
+ * depended on by others.
+ *
+ * @example
+ * export const auth = definePlugin({
+ *     name: 'auth',
+ *     dependencies: ['session'],
+ *     register(app, options: { secret: string }) {
+ *         app.decorateRequest('user', null);
+ *         app.addHook('preHandler', (req) => { ... });
+ *     },
+ * });
+ *
+ * api.register(session).register(auth, { secret: process.env.SECRET! });
+ *
+ * @param definition - The plugin name, dependencies and register function.
+ * @returns The same definition, with its options type inferred.
+ */
+export function definePlugin<O extends object = {}>(
+    definition: PluginDefinition<O>
+): PluginDefinition<O> {
+    return definition;
+}
@@ -0,0 +1,24 @@
+// Import types
+import type { RouteModuleDefinition, RouteSchema } from '@Types';
+
+/**
+ * Defines a route module with handlers typed from its schema.
+ * Export the result as the default export of a `route.ts` file; it is loaded
+ * alongside (and overridden by) the file's named exports.
+ *
+ * @example
+ * export default defineRoute({
+ *     schema: { get: { params: z.object({ id: z.coerce.number() }) } },
+ *     GET(req, res) {
+ *         return res.json({ id: req.validated.params.id }); // number
+ *     },
+ * });
+ *
+ * @param definition - The route schema, config, OpenAPI metadata and method handlers.
+ * @returns The same definition, with its handler types inferred.
+ */
+export function defineRoute<S extends RouteSchema = {}>(
+    definition: RouteModuleDefinition<S>
+): RouteModuleDefinition<S> {
+    return definition;
+}
@@ -0,0 +1,238 @@
+import { STATUS_CODES } from 'http';
+
+import type { ErrorDetails } from '@Types';
+
+export interface HttpErrorOptions {
+    /**
+     * A machine-readable error code, e.g. "PRODUCT_NOT_FOUND".
+     * Defaults to the status reason phrase, e.g. "NOT_FOUND".
+     */
+    code?: string;
+
+    /**
+     * Additional data for the client, e.g. the conflicting resource.
+     */
+    details?: unknown;
+
+    /**
+     * Headers to add to the response, e.g. `WWW-Authenticate`.
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The underlying error, for logging.
+     */
+    cause?: unknown;
+}
+
+/**
+ * Converts a status reason phrase into an error code, e.g. "Not Found"
+ * into "NOT_FOUND".
+ * @param status The HTTP status code.
+ * @returns The error code.
+ */
+function defaultCode(status: number): string {
+    return (STATUS_CODES[status] || 'Error')
+        .toUpperCase()
+        .replace(/'/g, '')
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_|_$/g, '');
+}
+
+/**
+ * An error that is sent to the client as an HTTP error response.
+ * Throw it from a handler or middleware, and the framework responds with its
+ * status, code, details and headers in the configured error format.
+ *
+ * @example
+ * throw new NotFound('Product not found', { code: 'PRODUCT_NOT_FOUND' });
+ */
+export class HttpError extends Error {
+    /**
+     * The HTTP status code.
+     */
+    public readonly status: number;
+
+    /**
+     * A machine-readable error code.
+     */
+    public readonly code: string;
+
+    /**
+     * Additional data for the client.
+     */
+    public readonly details?: unknown;
+
+    /**
+     * Headers to add to the response.
+     */
+    public readonly headers: Record<string, string>;
+
+    /**
+     * Creates a new HTTP error.
+     * @param status The HTTP status code.
+     * @param message The message for the client, defaults to the status reason phrase.
+     * @param options The code, details, headers and cause of the error.
+     */
+    constructor(status: number, message?: string, options: HttpErrorOptions = {}) {
+        super(message ?? STATUS_CODES[status] ?? 'Error', { cause: options.cause });
+        this.name = new.target.name;
+        this.status = status;
+        this.code = options.code ?? defaultCode(status);
+        this.details = options.details;
+        this.headers = options.headers ?? {};
+    }
+
+    /**
+     * Describes the error for the error formatter.
+     * @returns The error details.
+     */
+    public toErrorDetails(): ErrorDetails {
+        return {
+            status: this.status,
+            title: STATUS_CODES[this.status] || 'Error',
+            detail: this.message,
+            code: this.code,
+            details: this.details,
+            headers: this.headers,
+            cause: this,
+        };
+    }
+}
+
+/**
+ * 400 Bad Request: the request is malformed.
+ */
+export class BadRequest extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(400, message, options);
+    }
+}
+
+/**
+ * 401 Unauthorized: the request lacks valid authentication.
+ */
+export class Unauthorized extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(401, message, options);
+    }
+}
+
+/**
+ * 403 Forbidden: the client is authenticated but not allowed to do this.
+ */
+export class Forbidden extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(403, message, options);
+    }
+}
+
+/**
+ * 404 Not Found: the resource doesn't exist.
+ */
+export class NotFound extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(404, message, options);
+    }
+}
+
+/**
+ * 405 Method Not Allowed: the resource doesn't support the method.
+ */
+export class MethodNotAllowed extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(405, message, options);
+    }
+}
+
+/**
+ * 409 Conflict: the request conflicts with the current state of the resource.
+ */
+export class Conflict extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(409, message, options);
+    }
+}
+
+/**
+ * 410 Gone: the resource existed but was removed.
+ */
+export class Gone extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(410, message, options);
+    }
+}
+
+/**
+ * 413 Payload Too Large: the request body exceeds the limit.
+ */
+export class PayloadTooLarge extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(413, message, options);
+    }
+}
+
+/**
+ * 415 Unsupported Media Type: the request body has an unsupported content type.
+ */
+export class UnsupportedMediaType extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(415, message, options);
+    }
+}
+
+/**
+ * 422 Unprocessable Entity: the request is well-formed but semantically invalid.
+ */
+export class UnprocessableEntity extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(422, message, options);
+    }
+}
+
+/**
+ * 429 Too Many Requests: the client is rate limited.
+ * `retryAfter` (in seconds) is sent as the Retry-After header.
+ */
+export class TooManyRequests extends HttpError {
+    constructor(
+        message?: string,
+        options: HttpErrorOptions & { retryAfter?: number } = {}
+    ) {
+        const { retryAfter, ...rest } = options;
+        super(429, message, {
+            ...rest,
+            headers:
+                retryAfter !== undefined
+                    ? { 'Retry-After': String(retryAfter), ...rest.headers }
+                    : rest.headers,
+        });
+    }
+}
+
+/**
+ * 500 Internal Server Error: an unexpected condition on the server.
+ */
+export class InternalServerError extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(500, message, options);
+    }
+}
+
+/**
+ * 501 Not Implemented: the server doesn't support the functionality yet.
+ */
+export class NotImplemented extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(501, message, options);
+    }
+}
+
+/**
+ * 503 Service Unavailable: the server is temporarily unable to handle the request.
+ */
+export class ServiceUnavailable extends HttpError {
+    constructor(message?: string, options?: HttpErrorOptions) {
+        super(503, message, options);
+    }
+}
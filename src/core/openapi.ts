@@ -1,19 +1,49 @@
-import { zodToJsonSchema } from 'zod-to-json-schema';
+import { STATUS_CODES } from 'http';
+import { zodToJsonSchema, ignoreOverride } from 'zod-to-json-schema';
+import { isFileSchema } from '@utils/file-schema.js';
+import { HttpError } from '@core/errors.js';
 
 // Import types
 import type { ApiRouter } from '@core/api-router.js';
-import type { ServerOptions, TrieNode, RouteDefinition } from '@Types';
+import type {
+    ServerOptions,
+    TrieNode,
+    RouteDefinition,
+    RouteMethodSchema,
+} from '@Types';
+
+/**
+ * Converts a Zod schema into JSON schema.
+ * File fields (see fileField) are documented as binary strings.
+ * @param zodSchema - The Zod schema to convert.
+ * @returns The JSON schema, and whether it contains file fields.
+ */
+function toJsonSchema(zodSchema: any): { schema: any; hasFiles: boolean } {
+    let hasFiles = false;
+    const schema = zodToJsonSchema(zodSchema, {
+        override: (def) => {
+            if (!isFileSchema(def)) return ignoreOverride;
+            hasFiles = true;
+            return { type: 'string', format: 'binary' } as any;
+        },
+    });
+    return { schema, hasFiles };
+}
 
 /**
  * Builds an array of OpenAPI 3.0 parameters based on the Zod schema.
  * For each property in the Zod schema, an OpenAPI parameter is constructed
- * with the same name and required flag. The schema of the parameter is set
- * to a string type.
+ * with the same name, required flag and the JSON schema of the property.
+ * Nested query objects are documented with the deepObject style
+ * (e.g. `filter[status]=open`), arrays with repeated keys (`tag=a&tag=b`).
  * @param zodSchema - The Zod schema to construct parameters from.
- * @param location - The location of the parameter. Must be either "path" or "query".
+ * @param location - The location of the parameter: "path", "query", "header" or "cookie".
  * @returns An array of OpenAPI 3.0 parameter objects.
  */
-function buildParameters(zodSchema: any, location: 'path' | 'query'): any[] {
+function buildParameters(
+    zodSchema: any,
+    location: 'path' | 'query' | 'header' | 'cookie'
+): any[] {
     const parameters: any[] = [];
     if (
         zodSchema &&
@@ -27,20 +57,33 @@ function buildParameters(zodSchema: any, location: 'path' | 'query'): any[] {
             // Get the definition of the field
             const fieldDef = shape[key];
 
-            // Determine if the field is optional
-            const isOptional = fieldDef._def.typeName === 'ZodOptional';
+            // Determine if the field is optional (optional or with a default)
+            const isOptional = fieldDef.isOptional();
+
+            // Convert the field to JSON schema, without the document keyword.
+            // Optionality is expressed by the required flag instead.
+            const { $schema, ...schema } = toJsonSchema(
+                fieldDef._def.typeName === 'ZodOptional'
+                    ? fieldDef._def.innerType
+                    : fieldDef
+            ).schema;
 
             parameters.push({
                 // Set the name of the parameter
                 name: key,
-                // Type of the parameter path or query
+                // Type of the parameter path, query, header or cookie
                 in: location,
                 // Set the required flag
                 required: !isOptional,
-                // Set the schema type
-                schema: { type: 'string' },
+                // Set the schema of the parameter
+                schema,
+                // Serialize nested query objects as filter[status]=open
+                ...(location === 'query' && schema.type === 'object'
+                    ? { style: 'deepObject', explode: true }
+                    : {}),
                 // Description of the parameter
-                description: `${location} parameter ${key}`,
+                description:
+                    fieldDef.description || `${location} parameter ${key}`,
             });
         }
     }
@@ -51,24 +94,206 @@ function buildParameters(zodSchema: any, location: 'path' | 'query'): any[] {
 /**
  * Builds a request body object for OpenAPI based on a Zod schema.
  * Converts the Zod schema into JSON schema and constructs an OpenAPI
- * requestBody object with content type "application/json".
- * @param zodSchema - The Zod schema to convert into JSON schema.
+ * requestBody object for each accepted content type. Without declared
+ * content types, bodies with file fields are documented as
+ * "multipart/form-data" only, since JSON and urlencoded bodies can't carry files.
+ * @param methodSchema - The route schema of the method, with the body schema.
  * @returns An OpenAPI requestBody object, or undefined if no schema is provided.
  */
-function buildRequestBody(zodSchema: any): any {
-    if (!zodSchema) return undefined;
-    const jsonSchema = zodToJsonSchema(zodSchema);
+function buildRequestBody(methodSchema: RouteMethodSchema): any {
+    if (!methodSchema.body) return undefined;
+    const { schema: jsonSchema, hasFiles } = toJsonSchema(methodSchema.body);
+    const contentTypes =
+        methodSchema.contentTypes ??
+        (hasFiles
+            ? ['multipart/form-data']
+            : [
+                  'application/json',
+                  'multipart/form-data',
+                  'application/x-www-form-urlencoded',
+              ]);
     return {
-        content: {
-            'application/json': {
-                schema: jsonSchema,
-            },
-        },
+        content: Object.fromEntries(
+            contentTypes.map((type) => [type, { schema: jsonSchema }])
+        ),
         description: 'Request body',
         required: true,
     };
 }
 
+/**
+ * Builds OpenAPI error responses for the HttpErrors a route declares.
+ * Errors with the same status are grouped, listing all their codes. The body
+ * schema follows the configured error format; custom formatters are
+ * documented without a schema.
+ * @param errors - The declared HttpError classes or instances.
+ * @param errorFormat - The configured error format.
+ * @returns An OpenAPI responses object.
+ */
+function buildErrorResponses(
+    errors: Array<HttpError | (new () => HttpError)>,
+    errorFormat: ServerOptions['errorFormat']
+): Record<string, any> {
+    // Group the error codes by status
+    const codesByStatus = new Map<number, string[]>();
+    for (const declared of errors) {
+        const error = declared instanceof HttpError ? declared : new declared();
+        const codes = codesByStatus.get(error.status) ?? [];
+        if (!codes.includes(error.code)) codes.push(error.code);
+        codesByStatus.set(error.status, codes);
+    }
+
+    const responses: Record<string, any> = {};
+    for (const [status, codes] of codesByStatus) {
+        const code = { type: 'string', enum: codes };
+        const response: Record<string, any> = {
+            description: `${STATUS_CODES[status] || 'Error'} (${codes.join(', ')})`,
+        };
+
+        if (errorFormat === 'problem') {
+            response.content = {
+                'application/problem+json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            type: { type: 'string' },
+                            title: { type: 'string' },
+                            status: { type: 'integer', enum: [status] },
+                            detail: { type: 'string' },
+                            instance: { type: 'string' },
+                            code,
+                            details: {},
+                        },
+                        required: ['type', 'title', 'status'],
+                    },
+                },
+            };
+        } else if (typeof errorFormat !== 'function') {
+            response.content = {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' },
+                            code,
+                            details: {},
+                        },
+                        required: ['error'],
+                    },
+                },
+            };
+        }
+
+        responses[status] = response;
+    }
+
+    return responses;
+}
+
+/**
+ * Builds an OpenAPI responses object based on the response schemas of a route.
+ * Each Zod schema is converted into JSON schema with content type
+ * "application/json", followed by the declared HttpErrors. Responses declared
+ * in the route's openapi metadata are merged on top, so they can add
+ * descriptions, headers or other statuses.
+ * @param zodSchemas - The response schemas, keyed by status code.
+ * @param declared - The responses from the route's openapi metadata.
+ * @param errors - The HttpErrors from the route's openapi metadata.
+ * @param errorFormat - The configured error format.
+ * @returns An OpenAPI responses object.
+ */
+function buildResponses(
+    zodSchemas: Record<string, any> | undefined,
+    declared: Record<string, any> | undefined,
+    errors: Array<HttpError | (new () => HttpError)> = [],
+    errorFormat?: ServerOptions['errorFormat']
+): Record<string, any> {
+    const responses: Record<string, any> = buildErrorResponses(
+        errors,
+        errorFormat
+    );
+
+    for (const status in zodSchemas) {
+        responses[status] = {
+            description: STATUS_CODES[status] || `Response ${status}`,
+            content: {
+                'application/json': {
+                    schema: toJsonSchema(zodSchemas[status]).schema,
+                },
+            },
+        };
+    }
+
+    for (const status in declared) {
+        responses[status] = { ...responses[status], ...declared[status] };
+    }
+
+    // OpenAPI requires at least one response
+    if (Object.keys(responses).length === 0) {
+        responses['200'] = { description: 'Successful response' };
+    }
+
+    return responses;
+}
+
+/**
+ * Builds OpenAPI path parameters for catch-all segments in a route path.
+ * OpenAPI has no notion of multi-segment parameters, so catch-all segments
+ * are documented as a single string parameter holding the rest of the path.
+ * Parameters already declared through the route schema are skipped.
+ * @param routePath The route path (e.g., "/files/:path+").
+ * @param declared The parameters already built from the route schema.
+ * @returns An array of OpenAPI 3.0 parameter objects.
+ */
+function buildCatchAllParameters(routePath: string, declared: any[]): any[] {
+    const parameters: any[] = [];
+    for (const match of routePath.matchAll(/:([a-zA-Z0-9_]+)([+*])/g)) {
+        const [, name, modifier] = match;
+        if (declared.some((p) => p.in === 'path' && p.name === name)) {
+            continue;
+        }
+        parameters.push({
+            name,
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description:
+                modifier === '*'
+                    ? `Optional catch-all parameter ${name} (one or more path segments; the path without it is documented separately)`
+                    : `Catch-all parameter ${name} (one or more path segments)`,
+        });
+    }
+    return parameters;
+}
+
+/**
+ * Returns the names of the parameters in a route path, e.g. "id" and "slug"
+ * for "/posts/:id/:slug*".
+ * @param routePath The route path.
+ * @returns The parameter names.
+ */
+function getPathParamNames(routePath: string): Set<string> {
+    return new Set(
+        routePath
+            .split('/')
+            .filter((segment) => segment.startsWith(':'))
+            .map((segment) => segment.slice(1).replace(/[+*]$/, ''))
+    );
+}
+
+/**
+ * Returns the path an optional catch-all route also matches with zero
+ * segments, e.g. "/docs" for "/docs/:slug*". OpenAPI path parameters are
+ * always required, so that path is documented as a separate operation.
+ * @param routePath The route path.
+ * @returns The base path, or undefined if the route doesn't end in an optional catch-all.
+ */
+function getOptionalCatchAllBase(routePath: string): string | undefined {
+    const match = routePath.match(/^(.*)\/:[a-zA-Z0-9_]+\*$/);
+    if (!match) return undefined;
+    return match[1] || '/';
+}
+
 /**
  * Converts a route path from colon-based dynamic segments to OpenAPI's curly brace syntax.
  *
@@ -76,8 +301,8 @@ function buildRequestBody(zodSchema: any): any {
  * @returns The converted route path with curly brace syntax (e.g., "/user/{id}").
  */
 function convertPathForOpenAPI(routePath: string): string {
-    // Replace occurrences of :param with {param}
-    return routePath.replace(/:([a-zA-Z0-9_]+)/g, '{$1}');
+    // Replace occurrences of :param, :param+ and :param* with {param}
+    return routePath.replace(/:([a-zA-Z0-9_]+)[+*]?/g, '{$1}');
 }
 
 /**
@@ -111,6 +336,14 @@ function collectRoutes(
         collectRoutes(node.paramChild, paramPath, routes);
     }
 
+    // Traverse catch-all child if exists
+    if (node.catchAllChild) {
+        const catchAllPath = `${currentPath}/:${node.catchAllChild.paramName}${
+            node.catchAllChild.optional ? '*' : '+'
+        }`;
+        collectRoutes(node.catchAllChild, catchAllPath, routes);
+    }
+
     return routes;
 }
 
@@ -137,16 +370,31 @@ export function generateOpenAPIDocument(
     // Collect all routes from the trie
     const routes = collectRoutes(router.routes);
 
-    // Iterate over each route
-    for (const route of routes) {
+    // Iterate over each route, and the base path of optional catch-alls
+    const variants = routes.flatMap((route) => {
+        const basePath = getOptionalCatchAllBase(route.path);
+        return basePath === undefined
+            ? [{ route, path: route.path, isBase: false }]
+            : [
+                  { route, path: route.path, isBase: false },
+                  { route, path: basePath, isBase: true },
+              ];
+    });
+    for (const { route, path, isBase } of variants) {
         // Convert colon-based dynamic segments to OpenAPI's {param} syntax
-        const openApiPath = convertPathForOpenAPI(route.path);
+        const openApiPath = convertPathForOpenAPI(path);
 
         // Initialize path object if necessary
         openapiDoc.paths[openApiPath] = openapiDoc.paths[openApiPath] || {};
 
         // For each HTTP method in the route, add an OpenAPI operation.
         for (const method in route.handlers) {
+            // Skip methods the framework derived, like HEAD from GET
+            if (route.implicitMethods?.includes(method)) continue;
+
+            // A route defined for the base path itself takes precedence
+            if (isBase && openapiDoc.paths[openApiPath][method.toLowerCase()]) continue;
+
             // Convert HTTP method to lowercase
             const lowerMethod = method.toLowerCase();
 
@@ -154,24 +402,34 @@ export function generateOpenAPIDocument(
             const methodMeta = route.openapi?.[lowerMethod] || {};
 
             // Generate an operationId: e.g., "get_api_product"
-            const operationId =
-                methodMeta.operationId ||
-                `${lowerMethod}_${route.path.replace(/[\/:]/g, '_')}`;
+            const operationId = methodMeta.operationId
+                ? `${methodMeta.operationId}${isBase ? '_base' : ''}`
+                : `${lowerMethod}_${path.replace(/[\/:+*]/g, '_')}`;
 
-            // Build parameters for both path and query from the schema.
+            // Build parameters for path, query, headers and cookies from the schema.
             let parameters: any[] = [];
             if (route.schema && route.schema[lowerMethod]) {
                 const schemaDef = route.schema[lowerMethod];
                 parameters = [
                     ...buildParameters(schemaDef.params, 'path'),
                     ...buildParameters(schemaDef.query, 'query'),
+                    ...buildParameters(schemaDef.headers, 'header'),
+                    ...buildParameters(schemaDef.cookies, 'cookie'),
                 ];
             }
+            parameters.push(...buildCatchAllParameters(path, parameters));
+            if (isBase) {
+                // The base path has no catch-all parameter
+                const pathParams = getPathParamNames(path);
+                parameters = parameters.filter(
+                    (p) => p.in !== 'path' || pathParams.has(p.name)
+                );
+            }
 
             // Build requestBody if a body schema exists.
             let requestBody = undefined;
             if (route.schema && route.schema[lowerMethod]?.body) {
-                requestBody = buildRequestBody(route.schema[lowerMethod].body);
+                requestBody = buildRequestBody(route.schema[lowerMethod]);
             }
 
             openapiDoc.paths[openApiPath][lowerMethod] = {
@@ -183,11 +441,12 @@ export function generateOpenAPIDocument(
                 deprecated: methodMeta.deprecated || false,
                 parameters: parameters,
                 requestBody: requestBody,
-                responses: methodMeta.responses || {
-                    '200': {
-                        description: 'Successful response',
-                    },
-                },
+                responses: buildResponses(
+                    route.schema?.[lowerMethod]?.response,
+                    methodMeta.responses,
+                    methodMeta.errors,
+                    options.errorFormat
+                ),
                 externalDocs: methodMeta.externalDocs || undefined,
             };
         }
@@ -8,10 +8,14 @@ import {
     normalizePath,
     compareRoutes,
     ROUTE_CONSTANTS,
+    importModule,
+    invalidateModule,
+    invalidateDirectory,
+    logRouteChanges,
 } from '@utils';
 
 // Import types
-import type { PageDefinition } from '@Types';
+import type { PageDefinition, RequestHandler } from '@Types';
 
 /**
  * PageRouter class for handling file-based page routing.
@@ -22,6 +26,15 @@ export class PageRouter {
     /** Array of loaded page definitions */
     public pages: PageDefinition[] = [];
 
+    /** Page definitions being loaded by loadPages, swapped in once complete */
+    private nextPages: PageDefinition[] = [];
+
+    /** The 404 pages (404.tsx or 404.html), keyed by the path of their folder */
+    public notFoundPages: PageDefinition[] = [];
+
+    /** 404 pages being loaded by loadPages, swapped in once complete */
+    private nextNotFoundPages: PageDefinition[] = [];
+
     /**
      * Constructor for the PageRouter class.
      * @param pagesDir The directory path where page modules are located.
@@ -47,12 +60,15 @@ export class PageRouter {
      * @returns A promise that resolves when all page modules have been loaded and sorted.
      */
     public async loadPages(): Promise<void> {
-        // Clear the pages array
-        this.pages = [];
+        // Load into a new array, so the current pages stay in use until loading completes
+        this.nextPages = [];
+        this.nextNotFoundPages = [];
         try {
             await this.scanDirectory(this.pagesDir);
             // Sort pages to ensure static routes are matched before dynamic ones
-            this.pages.sort((a, b) => compareRoutes(a, b));
+            this.nextPages.sort((a, b) => compareRoutes(a, b));
+            this.pages = this.nextPages;
+            this.notFoundPages = this.nextNotFoundPages;
         } catch (error) {
             console.error('Failed to load pages:', error);
             throw new Error(
@@ -63,6 +79,29 @@ export class PageRouter {
         }
     }
 
+    /**
+     * Reloads all pages, re-importing every module in the pages directory.
+     * The current pages stay in place if reloading fails.
+     * @param changedFiles The files that changed since the pages were last loaded.
+     * @returns A promise that resolves when the pages are reloaded.
+     */
+    public async reload(changedFiles: string[] = []): Promise<void> {
+        invalidateDirectory(this.pagesDir);
+        changedFiles.forEach((file) => invalidateModule(file));
+        const before = this.pages.map((page) => page.path);
+        try {
+            await this.loadPages();
+        } catch (error) {
+            console.error('Failed to reload pages, keeping previous pages:', error);
+            return;
+        }
+        logRouteChanges(
+            'Page',
+            before,
+            this.pages.map((page) => page.path)
+        );
+    }
+
     /**
      * Recursively scans the directory for page modules and adds them to the pages array.
      * @param dir The current directory to scan.
@@ -97,6 +136,11 @@ export class PageRouter {
                         dynamicFolderFound = true;
                     }
                     await this.scanDirectory(entryPath, relativePath);
+                } else if (
+                    entry.isFile() &&
+                    ROUTE_CONSTANTS.PAGE_NOT_FOUND_FILES.includes(entry.name)
+                ) {
+                    await this.loadNotFoundPage(entryPath, basePath);
                 } else if (
                     entry.isFile() &&
                     ROUTE_CONSTANTS.SUPPORTED_PAGE_EXTENSIONS.some((ext) =>
@@ -113,7 +157,7 @@ export class PageRouter {
 
                     try {
                         // Import the module
-                        const pageModule = await import(modulePath);
+                        const pageModule = await importModule(modulePath);
 
                         // Get the default export as the page handler
                         if (
@@ -140,7 +184,7 @@ export class PageRouter {
                         };
 
                         // Add the page definition to the pages array
-                        this.pages.push(pageDefWithSlash, pageDef);
+                        this.nextPages.push(pageDefWithSlash, pageDef);
                     } catch (importError) {
                         console.error(
                             `Failed to import module at ${modulePath}:`,
@@ -155,6 +199,59 @@ export class PageRouter {
         }
     }
 
+    /**
+     * Loads a 404 page (404.tsx or 404.html), which is rendered with a 404
+     * status for unmatched requests in its folder's subtree.
+     * A 404.html file is sent as is; a 404.tsx module must export a default
+     * handler, whose response is sent with the 404 status.
+     * @param entryPath The full file system path to the 404 page.
+     * @param basePath The relative path of the folder containing the page.
+     */
+    private async loadNotFoundPage(
+        entryPath: string,
+        basePath: string
+    ): Promise<void> {
+        const folderPath = this.convertFilePathToRoute(basePath);
+        const modulePath = path.resolve(entryPath);
+
+        if (modulePath.endsWith('.html')) {
+            this.nextNotFoundPages.push({
+                path: folderPath,
+                handler: async () =>
+                    new Response(Bun.file(modulePath), {
+                        status: 404,
+                        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+                    }),
+            });
+            return;
+        }
+
+        try {
+            const pageModule = await importModule(modulePath);
+            if (typeof pageModule.default !== 'function') {
+                throw new Error(
+                    `Page at ${entryPath} must export a default function as its handler.`
+                );
+            }
+            const render: RequestHandler = pageModule.default;
+            this.nextNotFoundPages.push({
+                path: folderPath,
+                handler: async (req, res) => {
+                    const response = await render(req, res);
+                    return new Response(response.body, {
+                        status: 404,
+                        headers: response.headers,
+                    });
+                },
+            });
+        } catch (importError) {
+            console.error(
+                `Failed to import module at ${modulePath}:`,
+                importError
+            );
+        }
+    }
+
     /**
      * Converts a file path to a route path by processing dynamic segments,
      * removing certain directory indicators, and applying a prefix if specified.
@@ -270,6 +367,36 @@ export class PageRouter {
         return { params: {} };
     }
 
+    /**
+     * Finds the nearest 404 page for a request, i.e. the one in the deepest
+     * folder that contains the request path.
+     * @param request The request that has no matching route.
+     * @returns The 404 page definition, or undefined if there is none.
+     */
+    public resolveNotFound(request: Request): PageDefinition | undefined {
+        const url = new URL(request.url);
+        const reqSegments = normalizePath(url.pathname)
+            .split('/')
+            .filter(Boolean);
+
+        let nearest: PageDefinition | undefined;
+        let nearestDepth = -1;
+        for (const page of this.notFoundPages) {
+            const pageSegments = page.path.split('/').filter(Boolean);
+            if (
+                pageSegments.length > nearestDepth &&
+                this.matchRoute(
+                    '/' + reqSegments.slice(0, pageSegments.length).join('/'),
+                    page.path
+                )
+            ) {
+                nearest = page;
+                nearestDepth = pageSegments.length;
+            }
+        }
+        return nearest;
+    }
+
     /**
      * Checks if the request path matches the page path, extracting dynamic parameters if matched.
      * @param requestPath The request path to check.
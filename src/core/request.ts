@@ -1,16 +1,19 @@
 import { CookieMap } from "bun";
+import { unsignValue, decryptValue } from '@utils';
+import type { RouteParams } from '@Types';
 
 export class HttpRequest {
     private _request: Request;
     private _query?: URLSearchParams;
     private _parsedCookies: Map<string, string> | null = null; // Cache for parsed cookies
-    public params: Record<string, string> = {}; // Keep this if you use it
+    public params: RouteParams = {}; // Keep this if you use it
 
     /**
      * Creates a new HttpRequest object from the given Request object.
      * @param request - The Request object to wrap.
+     * @param secrets - The secrets signed and encrypted cookies are verified with (see ServerOptions.secrets).
      */
-    constructor(request: Request) {
+    constructor(request: Request, private secrets: string[] = []) {
         this._request = request;
         this._query = new URL(request.url).searchParams;
     }
@@ -80,6 +83,40 @@ export class HttpRequest {
     public getCookie(name: string): string | undefined {
         return this.parsedCookies.get(name);
     }
+
+    /**
+     * Gets the value of a cookie set with `res.signedCookie()`.
+     * @param name The name of the cookie to retrieve.
+     * @returns The cookie value, or undefined if the cookie doesn't exist or its signature doesn't match.
+     * @throws {Error} If no secrets are configured.
+     */
+    public getSignedCookie(name: string): string | undefined {
+        const value = this.getCookie(name);
+        return value === undefined ? undefined : unsignValue(value, this._requireSecrets(), name);
+    }
+
+    /**
+     * Gets the value of a cookie set with `res.encryptedCookie()`.
+     * @param name The name of the cookie to retrieve.
+     * @returns The decrypted cookie value, or undefined if the cookie doesn't exist or can't be decrypted.
+     * @throws {Error} If no secrets are configured.
+     */
+    public async getEncryptedCookie(name: string): Promise<string | undefined> {
+        const value = this.getCookie(name);
+        return value === undefined ? undefined : decryptValue(value, this._requireSecrets(), name);
+    }
+
+    /**
+     * Returns the secrets for signed and encrypted cookies.
+     * @returns The secrets.
+     * @throws {Error} If no secrets are configured.
+     */
+    private _requireSecrets(): string[] {
+        if (this.secrets.length === 0) {
+            throw new Error('Signed and encrypted cookies need `secrets` in the server options');
+        }
+        return this.secrets;
+    }
     
     /**
      * Retrieves the query parameters from the request URL.
@@ -129,6 +166,14 @@ export class HttpRequest {
      * }
      */
 
+    /**
+     * Gets the body of the request as a stream.
+     * @returns The body, or null if the request has none.
+     */
+    get body(): ReadableStream<Uint8Array> | null {
+        return this._request.body;
+    }
+
     /**
      * Gets the body of the request as JSON.
      * @returns The body as a Promise of the parsed JSON.
@@ -137,6 +182,15 @@ export class HttpRequest {
         return this._request.json();
     }
 
+    /**
+     * Gets the body of the request as FormData.
+     * Works for both multipart/form-data and application/x-www-form-urlencoded bodies.
+     * @returns The body as a Promise of the parsed FormData.
+     */
+    async formData(): Promise<FormData> {
+        return this._request.formData();
+    }
+
     /**
      * Returns the original Request object.
      * @returns The original Request object.
@@ -1,5 +1,22 @@
 import type{ CookieOptions } from '@Types';
+import { signValue, encryptValue } from '@utils';
+
+/**
+ * Gets the name of the cookie a Set-Cookie header sets.
+ * @param setCookie - The Set-Cookie header value.
+ * @returns The cookie name.
+ */
+function getCookieName(setCookie: string): string {
+    return setCookie.slice(0, setCookie.indexOf('=')).trim();
+}
+
 export class HttpResponse {
+
+    /**
+     * Creates a new HttpResponse.
+     * @param secrets - The secrets signed and encrypted cookies are created with; the first one is used (see ServerOptions.secrets).
+     */
+    constructor(private secrets: string[] = []) {}
     
     /**
      * The status code of the response, which defaults to 200 (OK). This
@@ -12,6 +29,12 @@ export class HttpResponse {
      * to construct the Response object.
      */
     private _headers: Headers = new Headers();
+    /**
+     * The Set-Cookie header values of the response. They are kept apart from
+     * the other headers, so that every cookie is sent, also when the handler
+     * returns a Response that was not built from this object (see applyCookies).
+     */
+    private _cookies: string[] = [];
     /**
      * The body of the response, which can be any valid BodyInit type or null.
      */
@@ -19,34 +42,46 @@ export class HttpResponse {
 
     /**
      * Set a header on the response.
+     * Set-Cookie headers are always added, as each one sets a single cookie.
      * @param name - The header name.
      * @param value - The header value.
      * @returns The response object.
      */
     public header(name: string, value: string): this {
+        if (name.toLowerCase() === 'set-cookie') {
+            return this.appendHeader(name, value);
+        }
         this._headers.set(name, value);
         return this;
     }
 
     /**
      * Set a header on the response.
+     * Set-Cookie headers are always added, as each one sets a single cookie.
      * @param name - The header name.
      * @param value - The header value.
      * @returns The response object.
      */
     public setHeader(name: string, value: string): this {
-        this._headers.set(name, value);
-        return this;
+        return this.header(name, value);
     }
 
     /**
      * Appends a header to the response. Unlike header/setHeader, this does not
-     * overwrite existing headers of the same name. Useful for Set-Cookie.
+     * overwrite existing headers of the same name. Useful for Set-Cookie; a
+     * cookie set again replaces its earlier Set-Cookie header, so each cookie
+     * is sent once.
      * @param name - The header name.
      * @param value - The header value.
      * @returns The response object.
      */
     public appendHeader(name: string, value: string): this {
+        if (name.toLowerCase() === 'set-cookie') {
+            const cookieName = getCookieName(value);
+            this._cookies = this._cookies.filter((cookie) => getCookieName(cookie) !== cookieName);
+            this._cookies.push(value);
+            return this;
+        }
         this._headers.append(name, value);
         return this;
     }
@@ -58,49 +93,128 @@ export class HttpResponse {
      * @param options - Optional cookie settings.
      * @returns The current instance for chaining.
      */
-    public cookie(name: string, value: string, options?: CookieOptions): this {
+    public cookie(name: string, value: string, options: CookieOptions = {}): this {
         const parts: string[] = [`${name}=${encodeURIComponent(value)}`];
 
-        if (options) {
-            if (options.domain) {
-                parts.push(`Domain=${options.domain}`);
-            }
-
-            if (options.path) {
-                parts.push(`Path=${options.path}`);
-            } else {
-                 // Add a default path if none is provided
-                parts.push('Path=/');
-            }
-
-            if (options.maxAge !== undefined) { // Check for undefined specifically
-                parts.push(`Max-Age=${options.maxAge}`);
-            }
-
-            if (options.expires) {
-                parts.push(`Expires=${options.expires.toUTCString()}`);
-            }
-
-            if (options.sameSite) {
-                parts.push(`SameSite=${options.sameSite}`);
-            }
-
-            if (options.secure) {
-                parts.push('Secure');
-            }
-
-            if (options.httpOnly) {
-                parts.push('HttpOnly');
-            }
+        if (options.domain) {
+            parts.push(`Domain=${options.domain}`);
+        }
+
+        // Add a default path if none is provided
+        parts.push(`Path=${options.path || '/'}`);
+
+        if (options.maxAge !== undefined) { // Check for undefined specifically
+            parts.push(`Max-Age=${options.maxAge}`);
         }
 
-        const cookieString = parts.join('; ');
-        // *** CHANGE THIS LINE ***
-        // Use appendHeader instead of header/setHeader
-        this.appendHeader('Set-Cookie', cookieString);
+        if (options.expires) {
+            parts.push(`Expires=${options.expires.toUTCString()}`);
+        }
+
+        if (options.sameSite) {
+            parts.push(`SameSite=${options.sameSite}`);
+        }
+
+        if (options.secure) {
+            parts.push('Secure');
+        }
+
+        if (options.httpOnly) {
+            parts.push('HttpOnly');
+        }
+
+        if (options.partitioned) {
+            parts.push('Partitioned');
+        }
+
+        if (options.priority) {
+            parts.push(`Priority=${options.priority}`);
+        }
+
+        // Append, so that every cookie set on the response is sent
+        this.appendHeader('Set-Cookie', parts.join('; '));
         return this;
     }
 
+    /**
+     * Adds the cookies set on this response to a Response. This keeps the
+     * cookies of middleware and helpers when the handler returns a Response it
+     * built itself, or when cookies are set after `res.json()` built the
+     * Response. The cookies replace Set-Cookie headers of the same name, so a
+     * cookie set again later (e.g. the session cookie after `regenerate()`)
+     * is sent once, with its last value.
+     * @param response - The Response to send.
+     * @returns The Response with all cookies; a copy if its headers are immutable
+     * (e.g. `Response.redirect()` or `fetch()` results).
+     */
+    public applyCookies(response: Response): Response {
+        if (this._cookies.length === 0) {
+            return response;
+        }
+        const present = response.headers.getSetCookie();
+        const names = new Set(this._cookies.map(getCookieName));
+        const cookies = [
+            ...present.filter((cookie) => !names.has(getCookieName(cookie))),
+            ...this._cookies,
+        ];
+        // Already sent, e.g. by a Response built with res.json()
+        if (cookies.length === present.length && cookies.every((cookie, i) => cookie === present[i])) {
+            return response;
+        }
+        const setCookies = (headers: Headers) => {
+            headers.delete('Set-Cookie');
+            cookies.forEach((cookie) => headers.append('Set-Cookie', cookie));
+        };
+        try {
+            setCookies(response.headers);
+        } catch (error) {
+            if (!(error instanceof TypeError)) throw error;
+            // The headers are immutable, so set the cookies on a copy
+            response = new Response(response.body, response);
+            setCookies(response.headers);
+        }
+        return response;
+    }
+
+    /**
+     * Set a cookie signed with the first secret, so it can't be changed by the
+     * client. Read it with `req.getSignedCookie()`. The value is still
+     * readable by the client; use encryptedCookie to hide it.
+     * @param name - The cookie name.
+     * @param value - The cookie value.
+     * @param options - Optional cookie settings.
+     * @returns The current instance for chaining.
+     * @throws {Error} If no secrets are configured.
+     */
+    public signedCookie(name: string, value: string, options?: CookieOptions): this {
+        return this.cookie(name, signValue(value, this._requireSecrets()[0], name), options);
+    }
+
+    /**
+     * Set a cookie encrypted (AES-GCM) with the first secret, so it can be
+     * neither read nor changed by the client. Read it with `req.getEncryptedCookie()`.
+     * @param name - The cookie name.
+     * @param value - The cookie value.
+     * @param options - Optional cookie settings.
+     * @returns The current instance for chaining.
+     * @throws {Error} If no secrets are configured.
+     */
+    public async encryptedCookie(name: string, value: string, options?: CookieOptions): Promise<this> {
+        return this.cookie(name, await encryptValue(value, this._requireSecrets()[0], name), options);
+    }
+
+    /**
+     * Returns the secrets for signed and encrypted cookies.
+     * @returns The secrets.
+     * @throws {Error} If no secrets are configured.
+     */
+    private _requireSecrets(): string[] {
+        if (this.secrets.length === 0) {
+            throw new Error('Signed and encrypted cookies need `secrets` in the server options');
+        }
+        return this.secrets;
+    }
+
    
 
     /**
@@ -109,6 +223,9 @@ export class HttpResponse {
      * @returns The response object.
      */
     public removeHeader(name: string): this {
+        if (name.toLowerCase() === 'set-cookie') {
+            this._cookies = [];
+        }
         this._headers.delete(name);
         return this;
     }
@@ -219,9 +336,11 @@ export class HttpResponse {
      * @returns The finalized Response object.
      */
     public build(): Response {
+        const headers = new Headers(this._headers);
+        this._cookies.forEach((cookie) => headers.append('Set-Cookie', cookie));
         return new Response(this._body, {
             status: this._status,
-            headers: this._headers,
+            headers,
         });
     }
 
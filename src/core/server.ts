@@ -1,12 +1,13 @@
 // Import stuff from Bun
 import { serve } from 'bun';
 import { WebSocketRouter } from './ws-router';
+import { CronScheduler } from './cron-scheduler';
 // Import stuff from core
 import { HttpRequest } from '@core/request.js';
 import { HttpResponse } from '@core/response.js';
 
 // Import stuff from utils
-import { errorResponse } from '@utils/error.js';
+import { errorResponse, runErrorHooks } from '@utils/error.js';
 
 import type {
     ServerOptions,
@@ -14,11 +15,14 @@ import type {
     apiRequest,
     apiResponse,
     WebSocketData,
+    WebSocketHandler,
+    ErrorHook,
 } from '@Types';
 
 export class Server {
     private options: ServerOptions;
     private server: ReturnType<typeof serve> | null = null;
+    private cronScheduler: CronScheduler | null = null;
 
     /**
      * Initializes a new instance of the Server class with the given options.
@@ -81,20 +85,14 @@ export class Server {
                         }
                     }
 
-                    const response = await handler(request);
-
-                    // Add CORS headers to the response if configured
-                    if (this.options.cors) {
-                        return this.addCorsHeaders(response, request);
-                    }
-
-                    return response;
+                    return await handler(request);
                 } catch (error) {
                     // Return a custom error response
                     return errorResponse(
                         error,
                         request,
-                        this.options.debug ?? false
+                        this.options.debug ?? false,
+                        this.options.errorFormat
                     );
                 }
             },
@@ -107,85 +105,16 @@ export class Server {
         }
     }
 
-    private handleCorsPreflightRequest(request: Request): Response {
-        const response = new Response(null, { status: 204 });
-        return this.addCorsHeaders(response, request);
-    }
-
-    private addCorsHeaders(response: Response, request: Request): Response {
-        const cors = this.options.cors;
-        if (!cors) return response;
-
-        const headers = new Headers(response.headers);
-
-        // Handle Access-Control-Allow-Origin
-        if (cors.origin) {
-            if (cors.origin === true) {
-                // Allow any origin when cors.origin is true
-                const requestOrigin = request.headers.get('origin');
-                headers.set(
-                    'Access-Control-Allow-Origin',
-                    requestOrigin || '*'
-                );
-            } else if (Array.isArray(cors.origin)) {
-                const requestOrigin = request.headers.get('origin');
-                if (requestOrigin && cors.origin.includes(requestOrigin)) {
-                    headers.set('Access-Control-Allow-Origin', requestOrigin);
-                } else {
-                    headers.set('Access-Control-Allow-Origin', cors.origin[0]);
-                }
-            } else {
-                headers.set('Access-Control-Allow-Origin', cors.origin);
-            }
-        }
-
-        // Handle Access-Control-Allow-Methods
-        if (cors.methods) {
-            headers.set(
-                'Access-Control-Allow-Methods',
-                Array.isArray(cors.methods)
-                    ? cors.methods.join(', ')
-                    : cors.methods
-            );
-        }
-
-        // Handle Access-Control-Allow-Headers
-        if (cors.allowedHeaders) {
-            headers.set(
-                'Access-Control-Allow-Headers',
-                Array.isArray(cors.allowedHeaders)
-                    ? cors.allowedHeaders.join(', ')
-                    : cors.allowedHeaders
-            );
-        }
-
-        // Handle Access-Control-Expose-Headers
-        if (cors.exposedHeaders) {
-            headers.set(
-                'Access-Control-Expose-Headers',
-                Array.isArray(cors.exposedHeaders)
-                    ? cors.exposedHeaders.join(', ')
-                    : cors.exposedHeaders
-            );
-        }
-
-        // Handle Access-Control-Allow-Credentials
-        if (cors.credentials) {
-            headers.set('Access-Control-Allow-Credentials', 'true');
-        }
-
-        // Handle Access-Control-Max-Age
-        if (cors.maxAge !== undefined) {
-            headers.set('Access-Control-Max-Age', cors.maxAge.toString());
+    /**
+     * Replaces the static routes of the running server without restarting it.
+     * The fetch and WebSocket handlers are kept, so in-flight requests and
+     * open WebSockets are not interrupted.
+     * @param routes - The new routes to be used by the server.
+     */
+    public reloadRoutes(routes: { [key: string]: any }): void {
+        if (this.server) {
+            this.server.reload({ routes });
         }
-
-        headers.set('X-Powered-By', 'eSportsApp');
-
-        return new Response(response.body, {
-            status: response.status,
-            statusText: response.statusText,
-            headers,
-        });
     }
 
     /**
@@ -193,12 +122,82 @@ export class Server {
      * If the server is currently running, this method will stop the server and
      * log a message to the console indicating that the server has been stopped.
      * If the server is not running, this method does nothing.
+     * @returns A promise that resolves once the running cron jobs have finished.
      */
-    public stop(): void {
+    public async stop(): Promise<void> {
+        // Stop scheduling cron jobs; running jobs are waited for below
+        const cronStopped = this.cronScheduler?.stop();
+        this.cronScheduler = null;
         if (this.server) {
             this.server.stop();
             console.log('Server stopped.');
         }
+        await cronStopped;
+    }
+
+    /**
+     * Starts running the cron jobs of a scheduler until the server is stopped.
+     * @param scheduler - The cron scheduler, with its jobs loaded.
+     */
+    public startCron(scheduler: CronScheduler): void {
+        this.cronScheduler = scheduler;
+        scheduler.start();
+    }
+
+    /**
+     * Runs a WebSocket handler and passes errors, thrown or rejected, to the
+     * route's and the server's error hooks.
+     * @param event - The name of the handler, for logging.
+     * @param ws - The WebSocket the event is for.
+     * @param handler - The WebSocket handlers of the route.
+     * @param run - Calls the handler.
+     */
+    private runSocketHandler(
+        event: string,
+        ws: any,
+        handler: WebSocketHandler,
+        run: () => unknown
+    ): void {
+        const report = (error: unknown) =>
+            this.handleSocketError(event, error, ws, handler);
+        try {
+            const result: any = run();
+            if (result && typeof result.then === 'function') {
+                result.then(undefined, report);
+            }
+        } catch (error) {
+            report(error);
+        }
+    }
+
+    /**
+     * Logs an error of a WebSocket handler and runs the error hooks with the
+     * upgrade request. Responses returned by the hooks are ignored.
+     * @param event - The name of the handler, for logging.
+     * @param error - The thrown error.
+     * @param ws - The WebSocket the event is for.
+     * @param handler - The WebSocket handlers of the route.
+     */
+    private async handleSocketError(
+        event: string,
+        error: unknown,
+        ws: any,
+        handler: WebSocketHandler
+    ): Promise<void> {
+        const hooks = [handler.onError, this.options.onError].filter(
+            (hook): hook is ErrorHook => typeof hook === 'function'
+        );
+        const request = ws.data.request as apiRequest | undefined;
+        if (hooks.length > 0 && request) {
+            const result = await runErrorHooks(
+                error,
+                request,
+                new HttpResponse() as unknown as apiResponse,
+                hooks
+            );
+            error = result.error;
+        }
+        console.error(`Error in ${event} handler:`, error);
     }
 
     public startSocket<T extends WebSocketData>(
@@ -282,6 +281,10 @@ export class Server {
                                     id,
                                     groupPath,
                                     createdAt: Date.now(),
+                                    request: new HttpRequest(
+                                        request,
+                                        this.options.secrets
+                                    ) as unknown as apiRequest,
                                 },
                             });
                             return undefined;
@@ -299,35 +302,27 @@ export class Server {
 
                     // Handle regular HTTP requests
                     const eSportsAppReq = new HttpRequest(
-                        request
+                        request,
+                        this.options.secrets
                     ) as unknown as apiRequest;
 
                     const eSportsAppRes =
-                        new HttpResponse() as unknown as apiResponse;
-
-                    const response = await handler(
-                        eSportsAppReq,
-                        eSportsAppRes
-                    );
-
-                    // Add CORS headers to the response if configured
-                    if (this.options.cors) {
-                        return this.addCorsHeaders(response, request);
-                    }
+                        new HttpResponse(this.options.secrets) as unknown as apiResponse;
 
-                    return response;
+                    return await handler(eSportsAppReq, eSportsAppRes);
                 } catch (error) {
                     console.error('Error in fetch handler:', error);
                     // Return a custom error response
                     return errorResponse(
                         error,
                         request,
-                        this.options.debug ?? false
+                        this.options.debug ?? false,
+                        this.options.errorFormat
                     );
                 }
             },
             websocket: {
-                open(ws: any) {
+                open: (ws: any) => {
                     console.log(
                         `WebSocket opened for group: ${ws.data.groupPath}`
                     );
@@ -344,27 +339,23 @@ export class Server {
                     // Match route based on the original pattern, not the group path
                     const { route } = wsRouter.matchRoute(ws.data.groupPath);
                     if (route?.handler.open) {
-                        try {
-                            route.handler.open(ws, ws.data.id);
-                        } catch (error) {
-                            console.error(`Error in open handler:`, error);
-                        }
+                        this.runSocketHandler('open', ws, route.handler, () =>
+                            route.handler.open!(ws, ws.data.id)
+                        );
                     }
                 },
-                message(ws: any, message: any) {
+                message: (ws: any, message: any) => {
                     console.log(
                         `Message received in group: ${ws.data.groupPath}`
                     );
                     const { route } = wsRouter.matchRoute(ws.data.groupPath);
                     if (route?.handler.message) {
-                        try {
-                            route.handler.message(ws, message, ws.data.id);
-                        } catch (error) {
-                            console.error(`Error in message handler:`, error);
-                        }
+                        this.runSocketHandler('message', ws, route.handler, () =>
+                            route.handler.message!(ws, message, ws.data.id)
+                        );
                     }
                 },
-                close(ws: any, code: any, reason: any) {
+                close: (ws: any, code: any, reason: any) => {
                     console.log(
                         `WebSocket closed for group: ${ws.data.groupPath}`
                     );
@@ -380,21 +371,17 @@ export class Server {
 
                     const { route } = wsRouter.matchRoute(ws.data.groupPath);
                     if (route?.handler.close) {
-                        try {
-                            route.handler.close(ws, code, reason, ws.data.id);
-                        } catch (error) {
-                            console.error(`Error in close handler:`, error);
-                        }
+                        this.runSocketHandler('close', ws, route.handler, () =>
+                            route.handler.close!(ws, code, reason, ws.data.id)
+                        );
                     }
                 },
-                drain(ws: any) {
+                drain: (ws: any) => {
                     const { route } = wsRouter.matchRoute(ws.data.groupPath);
                     if (route?.handler.drain) {
-                        try {
-                            route.handler.drain(ws, ws.data.id);
-                        } catch (error) {
-                            console.error(`Error in drain handler:`, error);
-                        }
+                        this.runSocketHandler('drain', ws, route.handler, () =>
+                            route.handler.drain!(ws, ws.data.id)
+                        );
                     }
                 },
             },
@@ -0,0 +1,185 @@
+import { Database, type Statement } from 'bun:sqlite';
+
+// Import types
+import type { SessionStore, StoredSession } from '@Types';
+
+/**
+ * How often expired sessions are removed, in milliseconds.
+ */
+const PRUNE_INTERVAL = 60_000;
+
+/**
+ * Keeps sessions in memory. Sessions are lost when the server restarts and
+ * are not shared between processes, so use it for development or a single
+ * instance.
+ */
+export class MemoryStore implements SessionStore {
+    /** Sessions by id, with the data serialized so it isn't shared with requests */
+    private sessions: Map<string, { data: string; expires: number }> = new Map();
+
+    /** When expired sessions are next removed */
+    private nextPrune = Date.now() + PRUNE_INTERVAL;
+
+    /**
+     * Gets a session.
+     * @param id The session id.
+     * @returns The session, or undefined if it doesn't exist or has expired.
+     */
+    public get(id: string): StoredSession | undefined {
+        const session = this.sessions.get(id);
+        if (!session) {
+            return undefined;
+        }
+        if (session.expires <= Date.now()) {
+            this.sessions.delete(id);
+            return undefined;
+        }
+        return { data: JSON.parse(session.data), expires: session.expires };
+    }
+
+    /**
+     * Creates or replaces a session.
+     * @param id The session id.
+     * @param session The session data and expiry.
+     */
+    public set(id: string, session: StoredSession): void {
+        this.sessions.set(id, {
+            data: JSON.stringify(session.data),
+            expires: session.expires,
+        });
+        this.prune();
+    }
+
+    /**
+     * Deletes a session.
+     * @param id The session id.
+     */
+    public destroy(id: string): void {
+        this.sessions.delete(id);
+    }
+
+    /**
+     * Removes expired sessions, at most once per PRUNE_INTERVAL.
+     */
+    private prune(): void {
+        const now = Date.now();
+        if (now < this.nextPrune) return;
+        this.nextPrune = now + PRUNE_INTERVAL;
+        this.sessions.forEach((session, id) => {
+            if (session.expires <= now) {
+                this.sessions.delete(id);
+            }
+        });
+    }
+}
+
+/**
+ * Options of SqliteStore.
+ */
+export interface SqliteStoreOptions {
+    /**
+     * The SQLite database file. Defaults to "sessions.sqlite".
+     */
+    filename?: string;
+
+    /**
+     * The table sessions are kept in. Defaults to "sessions".
+     */
+    table?: string;
+}
+
+/**
+ * Keeps sessions in a SQLite database file (using `bun:sqlite`), so they
+ * survive restarts and can be shared by processes on the same machine.
+ */
+export class SqliteStore implements SessionStore {
+    private db: Database;
+    private selectQuery: Statement<{ data: string; expires: number }, [string]>;
+    private upsertQuery: Statement<unknown, [string, string, number]>;
+    private deleteQuery: Statement<unknown, [string]>;
+    private pruneQuery: Statement<unknown, [number]>;
+
+    /** When expired sessions are next removed */
+    private nextPrune = 0;
+
+    /**
+     * Opens (or creates) the session database.
+     * @param options The database file and table.
+     * @throws {Error} If the table name is invalid.
+     */
+    constructor(options: SqliteStoreOptions = {}) {
+        const table = options.table ?? 'sessions';
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+            throw new Error(`Invalid session table name '${table}'`);
+        }
+
+        this.db = new Database(options.filename ?? 'sessions.sqlite', { create: true });
+        this.db.run(
+            `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL, expires INTEGER NOT NULL)`
+        );
+        this.selectQuery = this.db.query<{ data: string; expires: number }, [string]>(
+            `SELECT data, expires FROM ${table} WHERE id = ?`
+        );
+        this.upsertQuery = this.db.query<unknown, [string, string, number]>(
+            `INSERT OR REPLACE INTO ${table} (id, data, expires) VALUES (?, ?, ?)`
+        );
+        this.deleteQuery = this.db.query<unknown, [string]>(
+            `DELETE FROM ${table} WHERE id = ?`
+        );
+        this.pruneQuery = this.db.query<unknown, [number]>(
+            `DELETE FROM ${table} WHERE expires <= ?`
+        );
+    }
+
+    /**
+     * Gets a session.
+     * @param id The session id.
+     * @returns The session, or undefined if it doesn't exist or has expired.
+     */
+    public get(id: string): StoredSession | undefined {
+        const row = this.selectQuery.get(id);
+        if (!row) {
+            return undefined;
+        }
+        if (row.expires <= Date.now()) {
+            this.deleteQuery.run(id);
+            return undefined;
+        }
+        return { data: JSON.parse(row.data), expires: row.expires };
+    }
+
+    /**
+     * Creates or replaces a session.
+     * @param id The session id.
+     * @param session The session data and expiry.
+     */
+    public set(id: string, session: StoredSession): void {
+        this.upsertQuery.run(id, JSON.stringify(session.data), session.expires);
+        this.prune();
+    }
+
+    /**
+     * Deletes a session.
+     * @param id The session id.
+     */
+    public destroy(id: string): void {
+        this.deleteQuery.run(id);
+    }
+
+    /**
+     * Closes the database.
+     */
+    public close(): void {
+        this.db.close();
+    }
+
+    /**
+     * Removes expired sessions, at most once per PRUNE_INTERVAL.
+     */
+    private prune(): void {
+        const now = Date.now();
+        if (now < this.nextPrune) return;
+        this.nextPrune = now + PRUNE_INTERVAL;
+        this.pruneQuery.run(now);
+    }
+}
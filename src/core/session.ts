@@ -0,0 +1,284 @@
+import { randomBytes } from 'crypto';
+
+// Import utils
+import { signValue, unsignValue } from '@utils';
+import { MemoryStore } from '@core/session-store.js';
+
+// Import types
+import type {
+    CookieOptions,
+    Session,
+    SessionData,
+    SessionOptions,
+    SessionStore,
+    StoredSession,
+    apiRequest,
+    apiResponse,
+} from '@Types';
+
+/**
+ * How long a session lasts by default, in seconds (one day).
+ */
+const DEFAULT_MAX_AGE = 86400;
+
+/**
+ * With `rolling`, the expiry of a session is restarted once less than this
+ * share of `maxAge` is left, rather than on every request.
+ */
+const ROLLING_THRESHOLD = 0.5;
+
+/**
+ * Creates a random session id.
+ * @returns The session id.
+ */
+function createSessionId(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+/**
+ * SessionManager class for loading the sessions of requests (`config.session`).
+ * The session id is kept in a signed cookie, and the data in a SessionStore.
+ */
+export class SessionManager {
+    /** The store the sessions are kept in */
+    public readonly store: SessionStore;
+
+    /** The secrets the cookie is signed with; the first one signs */
+    private secrets: string[];
+
+    private cookieName: string;
+    private maxAge: number;
+    private rolling: boolean;
+    private cookieOptions: Omit<CookieOptions, 'maxAge' | 'expires'>;
+
+    /**
+     * Constructor for the SessionManager class.
+     * @param options The session options.
+     * @throws {Error} If the secret is empty.
+     */
+    constructor(options: SessionOptions = {}) {
+        const secrets = options.secret === undefined ? [] : [options.secret].flat();
+        if (options.secret !== undefined && (secrets.length === 0 || secrets.some((secret) => !secret))) {
+            throw new Error('Session secrets must not be empty');
+        }
+        if (secrets.length === 0) {
+            console.warn(
+                'No session secret configured; sessions are lost when the server restarts.'
+            );
+            secrets.push(randomBytes(32).toString('base64url'));
+        }
+
+        this.secrets = secrets;
+        this.store = options.store ?? new MemoryStore();
+        this.cookieName = options.cookieName ?? 'sid';
+        this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+        this.rolling = options.rolling ?? true;
+        this.cookieOptions = {
+            path: '/',
+            httpOnly: true,
+            sameSite: 'lax',
+            ...options.cookie,
+        };
+    }
+
+    /**
+     * Loads the session of a request from its cookie, or starts a new one if
+     * the cookie is missing, tampered with or the session has expired.
+     * With `rolling`, the expiry of an existing session is restarted once
+     * less than half of `maxAge` is left (see ROLLING_THRESHOLD).
+     * @param req The request.
+     * @param res The response, which the session cookie is set on.
+     * @returns {Promise<HttpSession>} The session.
+     */
+    public async load(req: apiRequest, res: apiResponse): Promise<HttpSession> {
+        const cookie = req.parsedCookies.get(this.cookieName);
+        const id = cookie ? unsignValue(cookie, this.secrets, this.cookieName) : undefined;
+        const stored = id ? await this.store.get(id) : undefined;
+        if (!id || !stored) {
+            return new HttpSession(this, res, createSessionId(), this.nextExpiry());
+        }
+
+        const session = new HttpSession(this, res, id, stored.expires, stored.data);
+        if (this.rolling && stored.expires - Date.now() < this.maxAge * 1000 * ROLLING_THRESHOLD) {
+            session.touch(this.nextExpiry());
+        }
+        return session;
+    }
+
+    /**
+     * Returns the expiry of a session that starts now.
+     * @returns The expiry, in milliseconds since the epoch.
+     */
+    public nextExpiry(): number {
+        return Date.now() + this.maxAge * 1000;
+    }
+
+    /**
+     * Sets the signed session id cookie.
+     * @param res The response.
+     * @param id The session id.
+     * @param expires When the session expires, in milliseconds since the epoch.
+     */
+    public setCookie(res: apiResponse, id: string, expires: number): void {
+        res.cookie(this.cookieName, signValue(id, this.secrets[0], this.cookieName), {
+            ...this.cookieOptions,
+            maxAge: Math.max(0, Math.ceil((expires - Date.now()) / 1000)),
+            expires: new Date(expires),
+        });
+    }
+
+    /**
+     * Clears the session id cookie.
+     * @param res The response.
+     */
+    public clearCookie(res: apiResponse): void {
+        res.cookie(this.cookieName, '', {
+            ...this.cookieOptions,
+            maxAge: 0,
+            expires: new Date(0),
+        });
+    }
+}
+
+/**
+ * HttpSession class, the session of a request (`req.session`).
+ * Changes are saved to the store after the handler (also when it throws), or with `save()`.
+ */
+export class HttpSession implements Session {
+    /** Whether the session must be saved, because it changed or its expiry restarted */
+    private modified = false;
+
+    /** Whether the cookie has been set for the current id */
+    private cookieSet = false;
+
+    private _isNew: boolean;
+    private data: SessionData;
+
+    /**
+     * Creates a session.
+     * @param manager The session manager.
+     * @param res The response, which the session cookie is set on.
+     * @param _id The session id.
+     * @param expires When the session expires, in milliseconds since the epoch.
+     * @param data The data of an existing session; new sessions start empty.
+     */
+    constructor(
+        private manager: SessionManager,
+        private res: apiResponse,
+        private _id: string,
+        private expires: number,
+        data?: SessionData
+    ) {
+        this._isNew = data === undefined;
+        this.data = data ?? {};
+    }
+
+    /**
+     * Gets the session id.
+     * @returns The session id.
+     */
+    get id(): string {
+        return this._id;
+    }
+
+    /**
+     * Whether the session was created by this request.
+     * @returns True for new sessions.
+     */
+    get isNew(): boolean {
+        return this._isNew;
+    }
+
+    /**
+     * Gets a value of the session.
+     * @param key The key.
+     * @returns The value, or undefined if it is not set.
+     */
+    public get<T = unknown>(key: string): T | undefined {
+        return this.data[key] as T | undefined;
+    }
+
+    /**
+     * Sets a value of the session. New sessions get their cookie now.
+     * @param key The key.
+     * @param value The value, which must be JSON serializable.
+     */
+    public set(key: string, value: unknown): void {
+        this.data[key] = value;
+        this.markModified();
+    }
+
+    /**
+     * Removes a value from the session.
+     * @param key The key.
+     */
+    public delete(key: string): void {
+        if (!(key in this.data)) return;
+        delete this.data[key];
+        this.markModified();
+    }
+
+    /**
+     * Deletes the session from the store and clears its cookie.
+     * @returns {Promise<void>} A promise that resolves when the session is deleted.
+     */
+    public async destroy(): Promise<void> {
+        await this.manager.store.destroy(this._id);
+        this.manager.clearCookie(this.res);
+        this.reset();
+        this.modified = false;
+    }
+
+    /**
+     * Replaces the session with a new, empty one with a new id and cookie.
+     * @returns {Promise<void>} A promise that resolves when the old session is deleted.
+     */
+    public async regenerate(): Promise<void> {
+        await this.manager.store.destroy(this._id);
+        this.reset();
+        this.markModified();
+    }
+
+    /**
+     * Saves the session to the store, if it needs saving.
+     * @returns {Promise<void>} A promise that resolves when the session is saved.
+     */
+    public async save(): Promise<void> {
+        if (!this.modified) return;
+        this.modified = false;
+        const stored: StoredSession = { data: this.data, expires: this.expires };
+        await this.manager.store.set(this._id, stored);
+    }
+
+    /**
+     * Restarts the expiry of the session and refreshes its cookie.
+     * @param expires The new expiry, in milliseconds since the epoch.
+     */
+    public touch(expires: number): void {
+        this.expires = expires;
+        this.cookieSet = false;
+        this.markModified();
+    }
+
+    /**
+     * Marks the session to be saved, setting its cookie if it isn't set yet.
+     */
+    private markModified(): void {
+        this.modified = true;
+        if (!this.cookieSet) {
+            this.manager.setCookie(this.res, this._id, this.expires);
+            this.cookieSet = true;
+        }
+    }
+
+    /**
+     * Replaces the session with a new, empty one.
+     */
+    private reset(): void {
+        this._id = createSessionId();
+        this._isNew = true;
+        this.data = {};
+        this.expires = this.manager.nextExpiry();
+        this.cookieSet = false;
+    }
+}
@@ -1,11 +1,14 @@
 import { readdir } from 'fs/promises';
 import * as path from 'path';
+import { importModule, invalidateModule, invalidateDirectory, logRouteChanges } from '@utils';
 import type{ WebSocketData, WebSocketHandler, WebSocketRouteDefinition } from '@Types';
 
 
 
 export class WebSocketRouter {
     private routes: WebSocketRouteDefinition[] = [];
+    // Routes being loaded by loadRoutes, swapped in once complete
+    private nextRoutes: WebSocketRouteDefinition[] = [];
     private socketGroups: Map<string, Set<WebSocket & { data: WebSocketData }>> = new Map();
     
         constructor(private socketDir: string, private prefix: string = 'socket') {
@@ -116,7 +119,24 @@ export class WebSocketRouter {
         // 1. Scan the socketDir for route files
         // 2. Load each route module and add it to this.routes
         // Example implementation:
+        // Load into a new array, so open sockets keep their handlers until loading completes
+        this.nextRoutes = [];
         await this.scanDirectory(this.socketDir);
+        this.routes = this.nextRoutes;
+    }
+
+    // Reload routes, re-importing every module in the socket directory. Socket groups are kept,
+    // so open WebSockets use the new handlers for their next events.
+    public async reload(changedFiles: string[] = []): Promise<void> {
+        invalidateDirectory(this.socketDir);
+        changedFiles.forEach((file) => invalidateModule(file));
+        const before = this.routes.map((route) => route.path);
+        await this.loadRoutes();
+        logRouteChanges(
+            'WebSocket',
+            before,
+            this.routes.map((route) => route.path)
+        );
     }
     
               // Scan directory for route files
@@ -166,8 +186,8 @@ export class WebSocketRouter {
             const absolutePath = path.resolve(filePath);
             
             
-            // Import the route module - use file:// protocol for Bun
-            const routeModule = await import(`file://${absolutePath}`);
+            // Import the route module (re-imported when changed in dev mode)
+            const routeModule = await importModule(absolutePath);
             
             // Create handler from module exports
             const handler: WebSocketHandler = {
@@ -175,6 +195,7 @@ export class WebSocketRouter {
                 message: routeModule.onMessage || routeModule.default?.onMessage,
                 close: routeModule.onClose || routeModule.default?.onClose,
                 drain: routeModule.onDrain || routeModule.default?.onDrain,
+                onError: routeModule.onError || routeModule.default?.onError,
             };
             
             // Verify that at least one handler is defined
@@ -184,7 +205,7 @@ export class WebSocketRouter {
             }
             
             // Add route to routes array
-            this.routes.push({
+            this.nextRoutes.push({
                 path: routePath,
                 handler,
             });
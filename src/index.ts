@@ -1,45 +1,243 @@
 // Import stuff  from core
 import { Server } from '@core/server.js';
-import { ApiRouter } from '@core/api-router.js';
+import { ApiRouter, mergeCors } from '@core/api-router.js';
 import { PageRouter } from '@core/page-router.js';
 import { generateOpenAPIDocument } from '@core/openapi.js';
 import { swaggerHtml } from '@core/swagger-ui.js';
 import { WebSocketRouter } from '@core/ws-router';
+import { CronScheduler } from '@core/cron-scheduler';
+import { handleCronAdminRequest } from '@core/cron-admin';
+import { SessionManager } from '@core/session';
 export { WebSocketRouter } from '@core/ws-router';
+export { CronScheduler } from '@core/cron-scheduler';
+export { MemoryStore, SqliteStore } from '@core/session-store';
+export type { SqliteStoreOptions } from '@core/session-store';
 export { Config } from '@core/config';
+export { defineRoute } from '@core/define-route';
+export { definePlugin } from '@core/define-plugin';
+export {
+    HttpError,
+    BadRequest,
+    Unauthorized,
+    Forbidden,
+    NotFound,
+    MethodNotAllowed,
+    Conflict,
+    Gone,
+    PayloadTooLarge,
+    UnsupportedMediaType,
+    UnprocessableEntity,
+    TooManyRequests,
+    InternalServerError,
+    NotImplemented,
+    ServiceUnavailable,
+} from '@core/errors';
+export type { HttpErrorOptions } from '@core/errors';
 export { setCookie, getCookie, deleteCookie } from '@core/cookies';
 
 // Import middleware
 import { createValidationMiddleware } from '@middleware/validator.js';
+import { createResponseValidationMiddleware } from '@middleware/response-validator.js';
+
+// Import utils
+import {
+    cleanPrefix,
+    normalizePath,
+    formatRouteTable,
+    getRouteMiddleware,
+    watchDirectory,
+    collectHooks,
+    runRequestHooks,
+    runOnSendHooks,
+    runOnResponseHooks,
+    afterBodySent,
+} from '@utils';
 
 // Import types
 import type {
     ServerOptions,
+    CorsOptions,
     Middleware,
     apiRequest,
     apiResponse,
     apiNext,
     RequestHandler,
+    ErrorHook,
+    LifecycleHooks,
+    LifecycleHookMap,
+    LifecycleHookName,
+    MethodRequestHandler,
+    MethodRouteOptions,
+    Plugin,
+    PluginContext,
+    PluginDefinition,
+    PluginRegisterOptions,
+    RouteHandlers,
+    RouteOptions,
+    RouteSchema,
 } from '@Types';
 import type { HTMLBundle } from 'bun';
+import type { FSWatcher } from 'fs';
 import { HttpRequest } from './core/request';
 import { HttpResponse } from './core/response';
-import { errorResponse } from './utils/error';
-function getCORSHeaders(
-    corsOptions: Required<NonNullable<ServerOptions['cors']>>,
+import {
+    errorResponse,
+    formatErrorResponse,
+    httpErrorDetails,
+    runErrorHooks,
+} from './utils/error';
+
+/**
+ * Request properties the framework sets on each request, which aren't on the
+ * prototype, so decorators can't be checked against it for them.
+ */
+const RESERVED_REQUEST_PROPERTIES = [
+    'params',
+    'validated',
+    'session',
+    'saveSession',
+    'res',
+    'route',
+    'allowedMethods',
+    'middleware',
+    'cookies',
+    'parsedBody',
+    'rawBody',
+    'secrets',
+    '_request',
+    '_query',
+    '_parsedCookies',
+];
+
+/**
+ * Response properties set on each response object.
+ */
+const RESERVED_RESPONSE_PROPERTIES = ['secrets', '_status', '_headers', '_cookies', '_body'];
+
+/**
+ * A property added to the requests or responses below a prefix
+ * (see BreezeAPI.decorateRequest).
+ */
+interface Decorator {
+    /** The property value */
+    value: unknown;
+
+    /** The prefix of the plugin that added it ("" for every request) */
+    prefix: string;
+}
+
+/**
+ * Checks whether a path is below a plugin prefix.
+ * @param pathname - The normalized request path.
+ * @param prefix - The prefix ("" for none, which every path is below).
+ * @returns Whether the path is the prefix or below it.
+ */
+function isBelowPrefix(pathname: string, prefix: string): boolean {
+    return !prefix || pathname === prefix || pathname.startsWith(prefix + '/');
+}
+
+/**
+ * Sets the decorators whose prefix a request is below on a request or response.
+ * @param target - The request or response.
+ * @param decorators - The decorators by property name.
+ * @param pathname - The normalized request path.
+ */
+function applyDecorators(
+    target: object,
+    decorators: Map<string, Decorator>,
+    pathname: string
+): void {
+    decorators.forEach(({ value, prefix }, name) => {
+        if (isBelowPrefix(pathname, prefix)) {
+            Reflect.set(target, name, value);
+        }
+    });
+}
+
+/**
+ * Checks a request origin against a single origin rule (string or RegExp).
+ * @param rule - The allowed origin or origin pattern.
+ * @param origin - The request's Origin header.
+ * @returns Whether the origin matches the rule.
+ */
+function matchOrigin(rule: string | RegExp, origin: string): boolean {
+    if (rule instanceof RegExp) {
+        rule.lastIndex = 0;
+        return rule.test(origin);
+    }
+    return rule === origin;
+}
+
+/**
+ * Checks whether an origin policy allows any origin (`'*'`, `true` or unset).
+ * Credentials are never allowed for such policies, as that would let any
+ * site make credentialed requests.
+ * @param option - The origin policy.
+ * @returns Whether the policy allows any origin.
+ */
+function isWildcardOrigin(option: CorsOptions['origin']): option is true | '*' | '' | undefined {
+    return option === true || option === '*' || !option;
+}
+
+/**
+ * Resolves the Access-Control-Allow-Origin value for a request.
+ * Wildcard policies allow any origin: `'*'` sends a literal `*`, and `true`
+ * echoes the request origin. Any other policy (string, RegExp, array or
+ * function) only allows matching origins, which are echoed back as a
+ * single value.
+ * @param corsOptions - The CORS policy for the request.
+ * @param req - The API request.
+ * @returns The header value, or undefined if the origin is not allowed.
+ */
+async function resolveAllowOrigin(
+    corsOptions: Required<CorsOptions>,
+    req: apiRequest
+): Promise<string | undefined> {
+    const option = corsOptions.origin;
+    const reqOrigin = req.headers.get('origin');
+
+    if (isWildcardOrigin(option)) {
+        return option === true && reqOrigin ? reqOrigin : '*';
+    }
+
+    // Restricted policies need an Origin to match against
+    if (!reqOrigin) return undefined;
+
+    let allowed: boolean;
+    if (typeof option === 'function') {
+        allowed = await option(reqOrigin, req);
+    } else if (Array.isArray(option)) {
+        allowed = option.some((rule) => matchOrigin(rule, reqOrigin));
+    } else {
+        allowed = matchOrigin(option, reqOrigin);
+    }
+    return allowed ? reqOrigin : undefined;
+}
+
+/**
+ * Builds the CORS headers for a request.
+ * If the request origin is not allowed, only `Vary: Origin` is returned so
+ * that caches keep responses for different origins apart.
+ * @param corsOptions - The CORS policy for the request.
+ * @param req - The API request.
+ * @param alwaysAllowedHeaders - Headers always included in Access-Control-Allow-Headers.
+ * @returns The CORS headers to add to the response.
+ */
+async function getCORSHeaders(
+    corsOptions: Required<CorsOptions>,
     req: apiRequest,
     alwaysAllowedHeaders: string[] = []
-): Headers {
+): Promise<Headers> {
     const headers = new Headers();
     // Compute allowed origin
-    let allowOrigin = Array.isArray(corsOptions.origin)
-        ? corsOptions.origin.join(', ')
-        : (corsOptions.origin === true ? '*' : corsOptions.origin);
-    if (corsOptions.credentials && (allowOrigin === '*' || !allowOrigin)) {
-        const reqOrigin = req.headers.get('origin');
-        if (reqOrigin) allowOrigin = reqOrigin;
-    }
-    headers.set('Access-Control-Allow-Origin', allowOrigin || '*');
+    const allowOrigin = await resolveAllowOrigin(corsOptions, req);
+    if (allowOrigin !== '*') {
+        headers.set('Vary', 'Origin');
+    }
+    if (!allowOrigin) {
+        return headers;
+    }
+    headers.set('Access-Control-Allow-Origin', allowOrigin);
     headers.set(
         'Access-Control-Allow-Methods',
         Array.isArray(corsOptions.methods)
@@ -69,7 +267,8 @@ function getCORSHeaders(
                 ? corsOptions.exposedHeaders.join(', ')
                 : corsOptions.exposedHeaders
         );
-    if (corsOptions.credentials)
+    // Only allow-listed origins may send credentials
+    if (corsOptions.credentials && !isWildcardOrigin(corsOptions.origin))
         headers.set('Access-Control-Allow-Credentials', 'true');
     if (corsOptions.maxAge)
         headers.set('Access-Control-Max-Age', String(corsOptions.maxAge));
@@ -82,8 +281,18 @@ export class BreezeAPI {
     private pageRouter?: PageRouter;
     private globalMiddleware: Middleware[] = [];
     private wsRouter?: WebSocketRouter;
-    private corsOptions: Required<NonNullable<ServerOptions['cors']>>;
+    private cronScheduler?: CronScheduler;
+    private cronAdmin?: { path: string; guards: Middleware[] };
+    private sessionManager?: SessionManager;
+    private corsOptions: Required<CorsOptions>;
     private alwaysAllowedHeaders: string[];
+    private watchers: FSWatcher[] = [];
+    private reloading: Promise<void> = Promise.resolve();
+    private hooks: LifecycleHooks;
+    private plugins: Set<string> = new Set();
+    private pluginQueue: Promise<void> = Promise.resolve();
+    private requestDecorators: Map<string, Decorator> = new Map();
+    private responseDecorators: Map<string, Decorator> = new Map();
 
     /**
      * Constructor for the API class.
@@ -111,7 +320,13 @@ export class BreezeAPI {
             maxAge: 86400,
             ...(options.cors || {}),
         };
+        if (options.cors?.credentials && isWildcardOrigin(this.corsOptions.origin)) {
+            console.warn(
+                'CORS credentials are only allowed for listed origins; set `cors.origin` to allow credentialed requests.'
+            );
+        }
         this.alwaysAllowedHeaders = options.alwaysAllowedHeaders ?? ['api-key'];
+        this.hooks = { ...(options.hooks || {}) };
 
         this.server = new Server(options);
         // Initialize API router
@@ -129,6 +344,34 @@ export class BreezeAPI {
             this.wsRouter = new WebSocketRouter(options.socketDir, 'socket');
         }
 
+        // Initialize cron scheduler
+        if (options.cronDir) {
+            this.cronScheduler = new CronScheduler(options.cronDir);
+
+            if (options.cronAdmin) {
+                const adminOptions = options.cronAdmin === true ? {} : options.cronAdmin;
+                this.cronAdmin = {
+                    path: '/' + cleanPrefix(adminOptions.path ?? '/cron'),
+                    guards: adminOptions.guards ?? [],
+                };
+                if (this.cronAdmin.guards.length === 0) {
+                    console.warn(
+                        `Cron admin endpoints at ${this.cronAdmin.path} have no guards; anyone can run or pause jobs.`
+                    );
+                }
+            }
+        }
+
+        // Initialize sessions
+        if (options.config?.session) {
+            const sessionOptions = options.config.session === true ? {} : options.config.session;
+            this.sessionManager = new SessionManager({
+                // Sign the session cookie with the cookie secrets by default
+                secret: options.secrets?.length ? options.secrets : undefined,
+                ...sessionOptions,
+            });
+        }
+
         // Add global middleware
         if (options.globalMiddleware) {
             options.globalMiddleware.forEach((mw) =>
@@ -147,24 +390,35 @@ export class BreezeAPI {
         return async (request: Request) => {
 
             // Create apiRequest and apiResponse here using the raw Bun Request
-            const apiRequest = new HttpRequest(request) as any as apiRequest;
-            const apiResponse = new HttpResponse() as any as apiResponse;
-
-            // Handle preflight OPTIONS using apiRequest
-            if (apiRequest.method === 'OPTIONS') {
-                const corsHeaders = getCORSHeaders(this.corsOptions, apiRequest, this.alwaysAllowedHeaders);
-                return new Response('OK', { status: 204, headers: corsHeaders });
-            }
+            const apiRequest = new HttpRequest(request, this.options.secrets) as any as apiRequest;
+            const apiResponse = new HttpResponse(this.options.secrets) as any as apiResponse;
+            apiRequest.res = apiResponse;
 
             // Call the real handler (the one returned by _createApiHandler).
             // Pass the *apiRequest* and *apiResponse* instances.
-            const response = await handler(apiRequest, apiResponse);
+            // Cookies set on apiResponse are added if the Response lacks them.
+            const response = apiResponse.applyCookies(await handler(apiRequest, apiResponse));
+
+            // Resolve the CORS policy of the matched route (if any)
+            const corsOptions = this._getCorsOptions(apiRequest);
+            if (!corsOptions) {
+                // CORS is disabled or the preflight is not allowed for this route
+                return response;
+            }
 
             // Get CORS headers using the apiRequest
-            const corsHeaders = getCORSHeaders(this.corsOptions, apiRequest, this.alwaysAllowedHeaders);
+            const corsHeaders = await getCORSHeaders(corsOptions, apiRequest, this.alwaysAllowedHeaders);
 
             // Directly modify the headers of the response returned by the handler.
             corsHeaders.forEach((v, k) => {
+                if (k === 'vary') {
+                    // Keep any Vary values the handler already set
+                    const vary = response.headers.get('vary');
+                    if (!vary || !/\borigin\b/i.test(vary)) {
+                        response.headers.append(k, v);
+                    }
+                    return;
+                }
                 // Use .set() to add or overwrite CORS headers
                 response.headers.set(k, v);
             });
@@ -174,6 +428,52 @@ export class BreezeAPI {
         };
     }
 
+    /**
+     * Resolves the CORS policy for a request.
+     * The global policy is overridden by the matched route's policy (folder
+     * `config.ts` files and `config.cors`), with a method-specific
+     * `config.<method>.cors` merged over it. For preflight requests the policy of the method
+     * in `Access-Control-Request-Method` is used, and the preflight is only
+     * allowed if that method is both allowed by the policy and answered by the route.
+     * @param req - The API request, with `route` set once it has been resolved.
+     * @returns The CORS options to apply, or false if no CORS headers should be sent.
+     */
+    private _getCorsOptions(req: apiRequest): Required<CorsOptions> | false {
+        const route = req.route;
+        const requestedMethod =
+            req.method.toUpperCase() === 'OPTIONS'
+                ? req.headers.get('access-control-request-method')?.toUpperCase()
+                : undefined;
+        const method = requestedMethod ?? req.method.toUpperCase();
+
+        const routeCors = mergeCors(route?.cors, route?.config?.[method.toLowerCase()]?.cors);
+        if (routeCors === false) {
+            return false;
+        }
+        const corsOptions: Required<CorsOptions> = {
+            ...this.corsOptions,
+            ...(routeCors || {}),
+        };
+
+        if (requestedMethod) {
+            const allowedMethods = (
+                Array.isArray(corsOptions.methods)
+                    ? corsOptions.methods
+                    : corsOptions.methods.split(',')
+            ).map((m) => m.trim().toUpperCase());
+            if (!allowedMethods.includes(requestedMethod)) {
+                return false;
+            }
+            if (
+                route &&
+                this.apiRouter &&
+                !this.apiRouter.getAllowedMethods(route).includes(requestedMethod)
+            ) {
+                return false;
+            }
+        }
+        return corsOptions;
+    }
 
     /**
      * Adds a global middleware function to the list of middlewares.
@@ -183,6 +483,18 @@ export class BreezeAPI {
         this.globalMiddleware.push(mw);
     }
 
+    /**
+     * Adds a lifecycle hook that runs for every API request, after the hooks
+     * of the same stage added before it (see LifecycleHooks).
+     * @param stage - The lifecycle stage, e.g. "onSend".
+     * @param hook - The hook function.
+     * @returns The API instance, for chaining.
+     */
+    addHook<K extends LifecycleHookName>(stage: K, hook: LifecycleHookMap[K]): this {
+        this.hooks[stage] = [...collectHooks(stage, this.hooks), hook] as LifecycleHooks[K];
+        return this;
+    }
+
     /**
      * Starts the server and begins listening for incoming requests.
      * @param port - The port number to listen on. Defaults to `4000`.
@@ -190,26 +502,31 @@ export class BreezeAPI {
      * @returns A Promise that resolves when the server has started listening.
      */
     async serve(port: number = 4000, cb?: () => void): Promise<void> {
+        // Finish registering plugins before the routes are loaded
+        await this.ready();
+
         const routes: { [key: string]: HTMLBundle | RequestHandler } = {};
 
         const rawApiHandler = this._createApiHandler();
 
         // Wrap that raw handler with CORS logic
         const wrappedApiHandler = this._wrapWithCORS(rawApiHandler);
+        // Load cron jobs
+        if (this.cronScheduler) {
+            await this.cronScheduler.loadJobs();
+        }
+
         // Handle page routes
         if (this.pageRouter) {
             await this.pageRouter.loadPages();
-            if (this.pageRouter.pages.length > 0) {
-                this.pageRouter.pages.forEach((page) => {
-                    routes[page.path] = page.handler;
-                });
-            }
+            Object.assign(routes, this._getPageRoutes());
         }
 
         // If both WebSocket and API routers are present
         if (this.wsRouter && this.apiRouter) {
             await this.wsRouter.loadRoutes();
             await this.apiRouter.loadRoutes();
+            this._printRoutes();
 
             this.server.startSocket(
                 routes,
@@ -220,6 +537,7 @@ export class BreezeAPI {
             );
         } else if (this.apiRouter) {
             await this.apiRouter.loadRoutes();
+            this._printRoutes();
             this.server.start(
                 routes,
                 wrappedApiHandler,
@@ -228,20 +546,158 @@ export class BreezeAPI {
             );
         } else {
             const defaultHandler = async (request: Request) => {
-                const apiRequest = new HttpRequest(request) as any as apiRequest;
-                const apiResponse = new HttpResponse() as any as apiResponse;
+                const apiRequest = new HttpRequest(request, this.options.secrets) as any as apiRequest;
+                const apiResponse = new HttpResponse(this.options.secrets) as any as apiResponse;
+                // The cron admin endpoints are served by the API handler
+                if (this._isCronAdminPath(new URL(request.url).pathname)) {
+                    return rawApiHandler(apiRequest, apiResponse);
+                }
+                const notFoundPage = await this._renderNotFoundPage(apiRequest, apiResponse);
+                if (notFoundPage) {
+                    return notFoundPage;
+                }
                 return apiResponse.status(200).json({ message: 'Hello from BreezeAPI!' });
             };
             const wrappedDefaultHandler = this._wrapWithCORS(defaultHandler);
 
             this.server.start(
-                undefined,
+                this.pageRouter ? routes : undefined,
                 wrappedDefaultHandler, // Pass the wrapped handler
                 port,
                 cb
             );
         }
 
+        // Start the cron jobs, which are stopped along with the server
+        if (this.cronScheduler) {
+            this.server.startCron(this.cronScheduler);
+        }
+
+        // Watch route directories for changes in dev mode
+        if (this.options.dev) {
+            this._watchForChanges();
+        }
+    }
+
+    /**
+     * Checks whether a path belongs to the cron admin endpoints.
+     * @param pathname - The request path.
+     * @returns True if the cron admin endpoints are enabled and serve the path.
+     */
+    private _isCronAdminPath(pathname: string): boolean {
+        if (!this.cronAdmin) return false;
+        const { path } = this.cronAdmin;
+        return pathname === path || pathname.startsWith(path + '/');
+    }
+
+    /**
+     * Runs the cron admin guards, then handles the request (see CronAdminOptions).
+     * @param req - The request.
+     * @param res - The response.
+     * @returns The response of a rejecting guard, or of the endpoint.
+     */
+    private async _handleCronAdmin(req: apiRequest, res: apiResponse): Promise<Response> {
+        const { path, guards } = this.cronAdmin!;
+        let chain: apiNext = () =>
+            handleCronAdminRequest(this.cronScheduler!, req, res, path);
+        for (const guard of guards.slice().reverse()) {
+            const next = chain;
+            chain = async () => guard(req, res, next);
+        }
+        return chain();
+    }
+
+    /**
+     * Prints the table of API routes when `printRoutes` is enabled.
+     */
+    private _printRoutes(): void {
+        if (this.options.printRoutes && this.apiRouter) {
+            console.info(`API routes:\n${formatRouteTable(this.apiRouter.listRoutes())}`);
+        }
+    }
+
+    /**
+     * Stops the server and, in dev mode, stops watching for changes.
+     * @returns A promise that resolves once the running cron jobs have finished.
+     */
+    async stop(): Promise<void> {
+        this.watchers.forEach((watcher) => watcher.close());
+        this.watchers = [];
+        await this.server.stop();
+    }
+
+    /**
+     * Renders the nearest 404.tsx or 404.html page for a request that has no
+     * matching route, if the client asks for HTML.
+     * @param req - The API request.
+     * @param res - The API response.
+     * @returns The 404 page response, or undefined if no page applies.
+     */
+    private async _renderNotFoundPage(
+        req: apiRequest,
+        res: apiResponse
+    ): Promise<Response | undefined> {
+        const method = req.method.toUpperCase();
+        if (
+            !this.pageRouter ||
+            (method !== 'GET' && method !== 'HEAD') ||
+            !req.headers.get('accept')?.includes('text/html')
+        ) {
+            return undefined;
+        }
+        const page = this.pageRouter.resolveNotFound(req);
+        return page ? page.handler(req, res) : undefined;
+    }
+
+    /**
+     * Builds the static routes map for the loaded pages.
+     * @returns The page routes keyed by path.
+     */
+    private _getPageRoutes(): { [key: string]: HTMLBundle | RequestHandler } {
+        const routes: { [key: string]: HTMLBundle | RequestHandler } = {};
+        this.pageRouter?.pages.forEach((page) => {
+            routes[page.path] = page.handler;
+        });
+        return routes;
+    }
+
+    /**
+     * Watches the API, page, socket and cron directories and reloads the
+     * routes of the directory that changed. Reloads run one at a time, and each router
+     * swaps in its new routes only once they are fully loaded, so in-flight
+     * requests and open WebSockets are not dropped.
+     */
+    private _watchForChanges(): void {
+        const watchRoutes = (
+            dir: string,
+            reload: (files: string[]) => Promise<void>
+        ) => {
+            const watcher = watchDirectory(dir, (files) => {
+                this.reloading = this.reloading
+                    .then(() => reload(files))
+                    .catch((error) => console.error('Hot reload failed:', error));
+            });
+            this.watchers.push(watcher);
+        };
+
+        const { apiRouter, pageRouter, wsRouter, cronScheduler } = this;
+        if (apiRouter && this.options.apiDir) {
+            watchRoutes(this.options.apiDir, (files) => apiRouter.reload(files));
+        }
+        if (pageRouter && this.options.pageDir) {
+            watchRoutes(this.options.pageDir, async (files) => {
+                await pageRouter.reload(files);
+                // Page routes are served by Bun directly, so hand it the new map
+                this.server.reloadRoutes(this._getPageRoutes());
+            });
+        }
+        if (wsRouter && this.options.socketDir) {
+            watchRoutes(this.options.socketDir, (files) => wsRouter.reload(files));
+        }
+        if (cronScheduler && this.options.cronDir) {
+            watchRoutes(this.options.cronDir, (files) => cronScheduler.reload(files));
+        }
+        console.log('👀 Dev mode: watching for route changes');
     }
 
     /**
@@ -253,16 +709,44 @@ export class BreezeAPI {
     private _createApiHandler(): (req: apiRequest, res: apiResponse) => Promise<Response> {
 
         // This function now returns the actual fetch handler for Bun.serve
-        return async (apiRequest: apiRequest, apiResponse: apiResponse) => {
+        const handleRequest = async (apiRequest: apiRequest, apiResponse: apiResponse): Promise<Response> => {
+            // Route and folder error hooks, set once the route is resolved
+            let errorHooks: ErrorHook[] = [];
+
+            // Apply the request and response decorators of plugins
+            if (this.requestDecorators.size > 0 || this.responseDecorators.size > 0) {
+                const pathname = normalizePath(new URL(apiRequest.url).pathname);
+                applyDecorators(apiRequest, this.requestDecorators, pathname);
+                applyDecorators(apiResponse, this.responseDecorators, pathname);
+            }
 
             try {
-                // If no API router, fallback to 404
-                if (!this.apiRouter) {
-                    return apiResponse.status(404).json({ error: 'API Router not configured' });
+                // Run the onRequest hooks before routing
+                const hookResponse = await runRequestHooks(
+                    collectHooks('onRequest', this.hooks),
+                    apiRequest,
+                    apiResponse
+                );
+                if (hookResponse) {
+                    return hookResponse;
                 }
 
                 const url = new URL(apiRequest.url); // Use apiRequest.url
 
+                // Serve the cron admin endpoints, if enabled
+                if (this._isCronAdminPath(url.pathname)) {
+                    return await this._handleCronAdmin(apiRequest, apiResponse);
+                }
+
+                // If no API router, fallback to 404
+                if (!this.apiRouter) {
+                    return formatErrorResponse(
+                        httpErrorDetails(404, { detail: 'API Router not configured' }),
+                        apiRequest,
+                        this.options.errorFormat
+                    );
+                }
+
                 // Check if the request is for /openapi.json
                 if (url.pathname === '/openapi.json') {
                     const doc = generateOpenAPIDocument(this.apiRouter, this.options);
@@ -276,14 +760,89 @@ export class BreezeAPI {
 
                 // Get the route and params for the current request
                 // Pass apiRequest to your resolve method
-                const { route, params } = this.apiRouter.resolve(apiRequest);
+                const resolved = this.apiRouter.resolve(apiRequest);
+                const { pathRoute, allowedMethods } = resolved;
+                let { route, params } = resolved;
+
+                // Expose the matched route, e.g. for its CORS policy
+                apiRequest.route = route ?? pathRoute;
 
                 if (!route) {
-                    return apiResponse.status(404).json({ error: 'Route not found' });
+                    // The path exists, but not for this method
+                    if (allowedMethods) {
+                        // Answer OPTIONS for routes that don't export their own handler
+                        if (apiRequest.method.toUpperCase() === 'OPTIONS') {
+                            // Reject preflights the route's CORS policy doesn't allow
+                            if (apiRequest.headers.has('access-control-request-method')) {
+                                const corsOptions = this._getCorsOptions(apiRequest);
+                                if (
+                                    !corsOptions ||
+                                    !(await resolveAllowOrigin(corsOptions, apiRequest))
+                                ) {
+                                    return formatErrorResponse(
+                                        httpErrorDetails(403, {
+                                            detail: 'CORS preflight rejected',
+                                            code: 'CORS_REJECTED',
+                                        }),
+                                        apiRequest,
+                                        this.options.errorFormat
+                                    );
+                                }
+                            }
+                            return apiResponse
+                                .status(204)
+                                .header('Allow', allowedMethods.join(', '))
+                                .build();
+                        }
+                    }
+
+                    // Hand the request to the nearest not-found.ts or method-not-allowed.ts,
+                    // which runs through the middleware chain like any other route
+                    const fallback = this.apiRouter.findFallback(
+                        apiRequest,
+                        allowedMethods ? 'methodNotAllowed' : 'notFound'
+                    );
+                    if (!fallback) {
+                        if (allowedMethods) {
+                            return formatErrorResponse(
+                                httpErrorDetails(405, {
+                                    code: 'METHOD_NOT_ALLOWED',
+                                    headers: { Allow: allowedMethods.join(', ') },
+                                }),
+                                apiRequest,
+                                this.options.errorFormat
+                            );
+                        }
+                        const notFoundPage = await this._renderNotFoundPage(apiRequest, apiResponse);
+                        if (notFoundPage) {
+                            return notFoundPage;
+                        }
+                        return formatErrorResponse(
+                            httpErrorDetails(404, {
+                                detail: 'Route not found',
+                                code: 'ROUTE_NOT_FOUND',
+                            }),
+                            apiRequest,
+                            this.options.errorFormat
+                        );
+                    }
+
+                    route = fallback;
+                    params = {};
+                    apiRequest.route = fallback;
+                    if (allowedMethods) {
+                        apiRequest.allowedMethods = allowedMethods;
+                        apiResponse
+                            .status(405)
+                            .header('Allow', allowedMethods.join(', '));
+                    } else {
+                        apiResponse.status(404);
+                    }
                 }
 
                 // Assign params to apiRequest
                 apiRequest.params = params;
+                errorHooks = route.errorHooks || [];
 
                 // Get the handler for the current HTTP method
                 const method = apiRequest.method.toUpperCase(); // Use apiRequest.method
@@ -302,34 +861,30 @@ export class BreezeAPI {
                 }
 
                 if (!handler) {
-                    return apiResponse.status(405).json({ error: 'Method Not Allowed' });
+                    return formatErrorResponse(
+                        httpErrorDetails(405, { code: 'METHOD_NOT_ALLOWED' }),
+                        apiRequest,
+                        this.options.errorFormat
+                    );
                 }
 
                 /**
                  * Build the middleware composition chain.
                  * 1. Compose the Route-Specific Chain
                  * 2. Insert Validation Middleware (if a schema exists)
+                 *    and Response Validation Middleware (if enabled)
                  * 3. Insert Global Middleware
                  * 4. Execute the handler
                  */
 
                 // 1. Compose the Route-Specific Chain
-                const methodKey = apiRequest.method.toLowerCase(); // Use apiRequest.method
-                let methodMiddleware: Middleware[] = [];
-
-                if (route.config && route.config[methodKey] && Array.isArray(route.config[methodKey].middleware)) {
-                    methodMiddleware = route.config[methodKey].middleware;
-                } else if (route.config && Array.isArray(route.config.middleware)) {
-                    methodMiddleware = route.config.middleware;
-                } else if (route.middleware && Array.isArray(route.middleware)) {
-                    methodMiddleware = route.middleware;
-                }
+                const methodMiddleware = getRouteMiddleware(route, apiRequest.method);
 
                 // Compose the handler chain
                 let routeChain = async (): Promise<Response> => {
                     // If this is an SSE route, handle SSE after all middleware
                     if (isSSE && sseHandler) {
-                        await this._handleSSE(sseHandler, apiRequest, apiResponse); // Pass apiRequest and apiResponse
+                        await this._handleSSE(sseHandler, apiRequest, apiResponse, errorHooks); // Pass apiRequest and apiResponse
                         // _handleSSE should likely handle the SSE response directly,
                         // so this dummy Response is just to satisfy the async return type.
                         // If _handleSSE returns a Response, use that.
@@ -339,6 +894,20 @@ export class BreezeAPI {
                     return handler(apiRequest, apiResponse); // Pass apiRequest and apiResponse
                 };
 
+                // Run the preHandler hooks after the route's middleware, right before the handler
+                const preHandlerHooks = collectHooks(
+                    'preHandler',
+                    this.hooks,
+                    route.config?.hooks,
+                    route.config?.[method.toLowerCase()]?.hooks
+                );
+                if (preHandlerHooks.length > 0) {
+                    const handlerChain = routeChain;
+                    routeChain = async () =>
+                        (await runRequestHooks(preHandlerHooks, apiRequest, apiResponse)) ??
+                        handlerChain();
+                }
+
                 if (methodMiddleware.length > 0) {
                     for (const mw of methodMiddleware.slice().reverse()) {
                         const next: apiNext = routeChain;
@@ -350,10 +919,42 @@ export class BreezeAPI {
                 let composedChain = routeChain;
                 if (route.schema) {
                     // Assuming createValidationMiddleware returns a middleware function that takes (req, res, next)
-                    const validationMw = createValidationMiddleware(route.schema);
+                    const validationMw = createValidationMiddleware(
+                        route.schema,
+                        this.options.errorFormat,
+                        this.options.maxBodySize
+                    );
                     composedChain = async () => validationMw(apiRequest, apiResponse, routeChain); // Pass apiRequest and apiResponse
                 }
 
+                // 2a. Run the preValidation hooks before the request is validated
+                const preValidationHooks = collectHooks(
+                    'preValidation',
+                    this.hooks,
+                    route.config?.hooks,
+                    route.config?.[method.toLowerCase()]?.hooks
+                );
+                if (preValidationHooks.length > 0) {
+                    const validationChain = composedChain;
+                    composedChain = async () =>
+                        (await runRequestHooks(preValidationHooks, apiRequest, apiResponse)) ??
+                        validationChain();
+                }
+
+                // 2b. Validate the response against its schema (if enabled)
+                const responseValidation =
+                    this.options.responseValidation ?? (this.options.debug ? 'log' : false);
+                if (route.schema && responseValidation) {
+                    const responseValidationMw = createResponseValidationMiddleware(
+                        route.schema,
+                        responseValidation,
+                        this.options.errorFormat
+                    );
+                    const validatedChain = composedChain;
+                    composedChain = async () =>
+                        responseValidationMw(apiRequest, apiResponse, validatedChain);
+                }
+
                 // 3. Wrap Global Middleware (in reverse order so that the first-added runs first)
                 let finalHandler = composedChain;
                 if (this.globalMiddleware.length > 0) {
@@ -363,8 +964,21 @@ export class BreezeAPI {
                     }
                 }
 
+                // Load the session for the chain, and save it once the chain is done,
+                // also when it throws, so the error response keeps the session changes
+                const session = await this.sessionManager?.load(apiRequest, apiResponse);
+                if (session) {
+                    apiRequest.session = session;
+                    apiRequest.saveSession = () => session.save();
+                }
+
                 // Execute the full chain
-                const finalResponse = await finalHandler();
+                let finalResponse: Response;
+                try {
+                    finalResponse = await finalHandler();
+                } finally {
+                    await session?.save();
+                }
 
                 // Bun will look at the original request object (wrapped by apiRequest)
                 // for cookies when returning the response from the main fetch handler.
@@ -373,16 +987,77 @@ export class BreezeAPI {
 
             } catch (error) {
                 // Handle errors that occurred during middleware/handler execution
-                return errorResponse(
-                    error,
-                    apiRequest.original, // Pass the original Bun request for logging/debugging context
-                    this.options.debug ?? false
-                );
+                return this._handleError(error, apiRequest, apiResponse, errorHooks);
             }
         };
+
+        // Wrap the request handling with the onSend and onResponse hooks
+        return async (apiRequest: apiRequest, apiResponse: apiResponse) => {
+            const start = performance.now();
+            let response = await handleRequest(apiRequest, apiResponse);
+
+            const routeConfig = apiRequest.route?.config;
+            const routeHooks = routeConfig?.hooks;
+            const methodHooks = routeConfig?.[apiRequest.method.toLowerCase()]?.hooks;
+            const onSendHooks = collectHooks('onSend', this.hooks, routeHooks, methodHooks);
+            if (onSendHooks.length > 0) {
+                try {
+                    response = await runOnSendHooks(onSendHooks, apiRequest, apiResponse, response);
+                } catch (error) {
+                    response = await this._handleError(
+                        error,
+                        apiRequest,
+                        apiResponse,
+                        apiRequest.route?.errorHooks ?? []
+                    );
+                }
+            }
+
+            const onResponseHooks = collectHooks('onResponse', this.hooks, routeHooks, methodHooks);
+            if (onResponseHooks.length > 0) {
+                // Run once the body has been sent, so the hooks don't delay it
+                const sent: Response = afterBodySent(response, (aborted) => {
+                    const timing = { start, duration: performance.now() - start, aborted };
+                    void runOnResponseHooks(onResponseHooks, apiRequest, sent, timing);
+                });
+                response = sent;
+            }
+
+            return response;
+        };
     }
 
 
+    /**
+     * Runs the error hooks of a route, folders and server for an error, and
+     * falls back to the error response if none of them returns a Response.
+     * @param error - The thrown error.
+     * @param req - The request being handled.
+     * @param res - The response of the request.
+     * @param routeHooks - The error hooks of the route and its folders.
+     * @returns The Response to send.
+     */
+    private async _handleError(
+        error: unknown,
+        req: apiRequest,
+        res: apiResponse,
+        routeHooks: ErrorHook[]
+    ): Promise<Response> {
+        const hooks = this.options.onError
+            ? [...routeHooks, this.options.onError]
+            : routeHooks;
+        const result = await runErrorHooks(error, req, res, hooks);
+        if (result.response) {
+            return result.response;
+        }
+        return errorResponse(
+            result.error,
+            req.original, // Pass the original Bun request for logging/debugging context
+            this.options.debug ?? false,
+            this.options.errorFormat
+        );
+    }
+
     /**
      * Handles Server-Sent Events (SSE) for GET requests with an SSE handler.
      * The SSE handler should return a ReadableStream or use the provided send function.
@@ -390,7 +1065,12 @@ export class BreezeAPI {
      * @param req - The API request.
      * @param res - The API response.
      */
-    private async _handleSSE(handler: RequestHandler, req: apiRequest, res: apiResponse) {
+    private async _handleSSE(
+        handler: RequestHandler,
+        req: apiRequest,
+        res: apiResponse,
+        errorHooks: ErrorHook[] = []
+    ) {
         // Set SSE headers using .header()
         res.header('Content-Type', 'text/event-stream');
         res.header('Cache-Control', 'no-cache');
@@ -444,7 +1124,11 @@ export class BreezeAPI {
                 }
                 res.send('', true); // close connection
             };
-            pump().catch(() => res.send('', true));
+            pump().catch(async (error) => {
+                // The response has started, so hooks can only observe the error
+                await this._handleError(error, req, res, errorHooks);
+                res.send('', true);
+            });
         } else {
             // If handler used send, keep connection open until closed by client
             if (typeof req.on === 'function') {
@@ -458,6 +1142,381 @@ export class BreezeAPI {
         return new Response(null, { status: 200 });
     }
 
+    /**
+     * Registers a plugin. Plugins are loaded one at a time, in the order they
+     * are registered, once the previous plugin (and its child plugins) has
+     * finished loading. `serve` waits for all plugins to load.
+     * @param plugin - The plugin function or definition (see definePlugin).
+     * @param options - The plugin's options, plus an optional `prefix` to scope it to.
+     * @returns The API instance, for chaining.
+     */
+    register<O extends object = {}>(
+        plugin: Plugin<O>,
+        options?: O & PluginRegisterOptions
+    ): this {
+        this.pluginQueue = this.pluginQueue.then(() =>
+            this._loadPlugin(plugin, options ?? ({} as O), '')
+        );
+        return this;
+    }
+
+    /**
+     * Waits for all registered plugins to load.
+     * @returns A promise that resolves once the plugins are loaded, or rejects
+     * with the error of the first plugin that failed.
+     */
+    async ready(): Promise<void> {
+        await this.pluginQueue;
+    }
+
+    /**
+     * Checks whether a named plugin has been loaded.
+     * @param name - The plugin name.
+     * @returns Whether the plugin is loaded.
+     */
+    hasPlugin(name: string): boolean {
+        return this.plugins.has(name);
+    }
+
+    /**
+     * Adds a property to every request, e.g. a helper method.
+     * Objects are shared between requests; set per-request values in an `onRequest` hook.
+     * @param name - The property name.
+     * @param value - The property value.
+     * @returns The API instance, for chaining.
+     * @throws {Error} If the request already has the property.
+     */
+    decorateRequest(name: string, value: unknown): this {
+        this._addDecorator(
+            this.requestDecorators,
+            HttpRequest.prototype,
+            RESERVED_REQUEST_PROPERTIES,
+            'request',
+            name,
+            { value, prefix: '' }
+        );
+        return this;
+    }
+
+    /**
+     * Adds a property to every response object.
+     * @param name - The property name.
+     * @param value - The property value.
+     * @returns The API instance, for chaining.
+     * @throws {Error} If the response already has the property.
+     */
+    decorateResponse(name: string, value: unknown): this {
+        this._addDecorator(
+            this.responseDecorators,
+            HttpResponse.prototype,
+            RESERVED_RESPONSE_PROPERTIES,
+            'response',
+            name,
+            { value, prefix: '' }
+        );
+        return this;
+    }
+
+    /**
+     * Adds a decorator after checking that it doesn't shadow a built-in property
+     * or another decorator, also one added below another prefix.
+     * @param decorators - The request or response decorators.
+     * @param prototype - The prototype of the decorated objects.
+     * @param reserved - The per-object properties, which aren't on the prototype.
+     * @param kind - "request" or "response", for the error message.
+     * @param name - The property name.
+     * @param decorator - The property value and the prefix it is added below.
+     * @throws {Error} If the property already exists.
+     */
+    private _addDecorator(
+        decorators: Map<string, Decorator>,
+        prototype: object,
+        reserved: string[],
+        kind: string,
+        name: string,
+        decorator: Decorator
+    ): void {
+        if (decorators.has(name) || name in prototype || reserved.includes(name)) {
+            throw new Error(`The ${kind} already has a '${name}' property.`);
+        }
+        decorators.set(name, decorator);
+    }
+
+    /**
+     * Loads a plugin and then its child plugins.
+     * @param plugin - The plugin function or definition.
+     * @param options - The plugin's options.
+     * @param parentPrefix - The prefix of the parent plugin ("" at the top level).
+     * @throws {Error} If a dependency isn't loaded or a plugin with the same name already is.
+     */
+    private async _loadPlugin<O extends object>(
+        plugin: Plugin<O>,
+        options: O & PluginRegisterOptions,
+        parentPrefix: string
+    ): Promise<void> {
+        const definition: Partial<PluginDefinition<O>> & Pick<PluginDefinition<O>, 'register'> =
+            typeof plugin === 'function' ? { register: plugin } : plugin;
+        const label = definition.name ?? (plugin.name || 'anonymous plugin');
+
+        if (definition.name && this.plugins.has(definition.name)) {
+            throw new Error(`Plugin '${definition.name}' is already registered.`);
+        }
+        for (const dependency of definition.dependencies ?? []) {
+            if (!this.plugins.has(dependency)) {
+                throw new Error(
+                    `Plugin '${label}' depends on '${dependency}', which is not registered before it.`
+                );
+            }
+        }
+
+        const prefix = options.prefix
+            ? normalizePath(`${parentPrefix}/${cleanPrefix(options.prefix)}`)
+            : parentPrefix;
+        const children: Array<{ plugin: Plugin<any>; options: any }> = [];
+        try {
+            await definition.register(
+                this._createPluginContext(prefix, children),
+                options
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to register plugin '${label}': ${message}`);
+        }
+        if (definition.name) {
+            this.plugins.add(definition.name);
+        }
+
+        // Child plugins load after their parent, in order
+        for (const child of children) {
+            await this._loadPlugin(child.plugin, child.options ?? {}, prefix);
+        }
+    }
+
+    /**
+     * Creates the API view a plugin registers itself on, scoping its
+     * middleware, hooks, routes and decorators to its prefix.
+     * @param prefix - The plugin's prefix ("" for none).
+     * @param children - Collects the child plugins the plugin registers.
+     * @returns The plugin context.
+     */
+    private _createPluginContext(
+        prefix: string,
+        children: Array<{ plugin: Plugin<any>; options: any }>
+    ): PluginContext {
+        // Whether a request is below the prefix
+        const inScope = (req: apiRequest) =>
+            !prefix || isBelowPrefix(normalizePath(new URL(req.url).pathname), prefix);
+        const methodRoute =
+            (method: string) =>
+            (path: string, handler: any, options?: MethodRouteOptions<any>) => {
+                this._addMethodRoute(method, `${prefix}/${cleanPrefix(path)}`, handler, options);
+                return context;
+            };
+
+        const context: PluginContext = {
+            prefix,
+            use: (mw) => {
+                this.addGlobalMiddleware(
+                    prefix
+                        ? async (req, res, next) => (inScope(req) ? mw(req, res, next) : next())
+                        : mw
+                );
+                return context;
+            },
+            addHook: (stage, hook) => {
+                const scopedHook = (req: apiRequest, ...args: any[]) =>
+                    inScope(req) ? (hook as Function)(req, ...args) : undefined;
+                this.addHook(stage, (prefix ? scopedHook : hook) as typeof hook);
+                return context;
+            },
+            get: methodRoute('GET'),
+            post: methodRoute('POST'),
+            put: methodRoute('PUT'),
+            patch: methodRoute('PATCH'),
+            delete: methodRoute('DELETE'),
+            route: (path: string, handlers: RouteHandlers<any>, options: RouteOptions<any> = {}) => {
+                this._addRoute(`${prefix}/${cleanPrefix(path)}`, { ...handlers, ...options });
+                return context;
+            },
+            decorateRequest: (name, value) => {
+                this._addDecorator(
+                    this.requestDecorators,
+                    HttpRequest.prototype,
+                    RESERVED_REQUEST_PROPERTIES,
+                    'request',
+                    name,
+                    { value, prefix }
+                );
+                return context;
+            },
+            decorateResponse: (name, value) => {
+                this._addDecorator(
+                    this.responseDecorators,
+                    HttpResponse.prototype,
+                    RESERVED_RESPONSE_PROPERTIES,
+                    'response',
+                    name,
+                    { value, prefix }
+                );
+                return context;
+            },
+            config: <T>(key: string, value?: T) => BreezeAPI.config<T>(key, value) as T | undefined,
+            register: (plugin, options) => {
+                children.push({ plugin, options });
+                return context;
+            },
+            hasPlugin: (name) => this.hasPlugin(name),
+        };
+        return context;
+    }
+
+    /**
+     * Registers a GET route in code. It is served from the same router as the
+     * file routes, with the same validation, middleware and OpenAPI generation.
+     * @example
+     * api.get('/users/:id', (req, res) => res.json({ id: req.validated.params.id }), {
+     *     schema: { params: z.object({ id: z.coerce.number() }) },
+     * });
+     * @param path - The route path, with `:param`, `:param+` and `:param*` segments.
+     * @param handler - The request handler, typed from the schema.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method.
+     * @returns The API instance, for chaining.
+     * @throws {Error} If the method is already registered for the path.
+     */
+    get<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): this {
+        this._addMethodRoute('GET', path, handler, options);
+        return this;
+    }
+
+    /**
+     * Registers a POST route in code (see `get`).
+     * @param path - The route path.
+     * @param handler - The request handler, typed from the schema.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method.
+     * @returns The API instance, for chaining.
+     */
+    post<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): this {
+        this._addMethodRoute('POST', path, handler, options);
+        return this;
+    }
+
+    /**
+     * Registers a PUT route in code (see `get`).
+     * @param path - The route path.
+     * @param handler - The request handler, typed from the schema.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method.
+     * @returns The API instance, for chaining.
+     */
+    put<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): this {
+        this._addMethodRoute('PUT', path, handler, options);
+        return this;
+    }
+
+    /**
+     * Registers a PATCH route in code (see `get`).
+     * @param path - The route path.
+     * @param handler - The request handler, typed from the schema.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method.
+     * @returns The API instance, for chaining.
+     */
+    patch<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): this {
+        this._addMethodRoute('PATCH', path, handler, options);
+        return this;
+    }
+
+    /**
+     * Registers a DELETE route in code (see `get`).
+     * @param path - The route path.
+     * @param handler - The request handler, typed from the schema.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method.
+     * @returns The API instance, for chaining.
+     */
+    delete<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): this {
+        this._addMethodRoute('DELETE', path, handler, options);
+        return this;
+    }
+
+    /**
+     * Registers a route with several methods in code, like the exports of a
+     * `route.ts` file: schemas and OpenAPI metadata are keyed by method.
+     * @example
+     * api.route('/todos', {
+     *     GET: (req, res) => res.json(todos),
+     *     POST: (req, res) => res.status(201).json(addTodo(req.validated.body)),
+     * }, { schema: { post: { body: todoSchema } } });
+     * @param path - The route path, with `:param`, `:param+` and `:param*` segments.
+     * @param handlers - The method handlers, typed from the schema of each method.
+     * @param options - The `schema`, `config` and `openapi` metadata of the route.
+     * @returns The API instance, for chaining.
+     * @throws {Error} If a method is already registered for the path.
+     */
+    route<S extends RouteSchema = {}>(
+        path: string,
+        handlers: RouteHandlers<S>,
+        options: RouteOptions<S> = {}
+    ): this {
+        this._addRoute(path, { ...handlers, ...options });
+        return this;
+    }
+
+    /**
+     * Registers a single method of a route in code.
+     * @param method - The HTTP method, e.g. "GET".
+     * @param path - The route path.
+     * @param handler - The request handler.
+     * @param options - The `schema`, `config` and `openapi` metadata of the method,
+     * stored under the method's key (e.g. `config.get`) so other methods of the path don't share them.
+     */
+    private _addMethodRoute(
+        method: string,
+        path: string,
+        handler: RequestHandler | MethodRequestHandler<any>,
+        options: MethodRouteOptions<any> = {}
+    ): void {
+        const key = method.toLowerCase();
+        this._addRoute(path, {
+            [method]: handler,
+            schema: options.schema ? { [key]: options.schema } : undefined,
+            openapi: options.openapi ? { [key]: options.openapi } : undefined,
+            config: options.config ? { [key]: options.config } : undefined,
+        });
+    }
+
+    /**
+     * Registers a route in code with the API router, creating the router if
+     * there is no `apiDir`. Routes are loaded when the server starts; a route
+     * whose path is also served by a route file is reported as a conflict.
+     * @param path - The route path.
+     * @param routeModule - The method handlers, `schema`, `config` and `openapi` of the route.
+     * @throws {Error} If a method is already registered for the path.
+     */
+    private _addRoute(path: string, routeModule: Record<string, any>): void {
+        if (!this.apiRouter) {
+            this.apiRouter = new ApiRouter(undefined, '');
+        }
+        this.apiRouter.addRoute(path, routeModule);
+    }
+
     /**
      * Register global middleware (like Express).
      * @param mw - The middleware function to add.
@@ -499,7 +1558,8 @@ export class API extends BreezeAPI {
 }
 
 // Export utils
-export { setDir } from '@utils';
+export { setDir, fileField, filesField } from '@utils';
+export type { FileFieldOptions, FilesFieldOptions } from '@utils';
 
 // Export types
 export type {
@@ -513,4 +1573,40 @@ export type {
     WebSocketData,
     WebSocketHandler,
     WebSocketRouteDefinition,
+    RouteSchema,
+    RouteConfig,
+    RouteModuleDefinition,
+    TypedRequestHandler,
+    InferValidated,
+    InferResponse,
+    BodyContentType,
+    ResponseValidationMode,
+    HttpMethod,
+    ErrorDetails,
+    ErrorFormatter,
+    ValidationIssue,
+    ErrorHook,
+    RequestHook,
+    OnSendHook,
+    OnResponseHook,
+    ResponseTiming,
+    LifecycleHooks,
+    LifecycleHookName,
+    MethodRouteOptions,
+    MethodRequestHandler,
+    RouteOptions,
+    RouteHandlers,
+    Plugin,
+    PluginContext,
+    PluginDefinition,
+    PluginFunction,
+    PluginRegisterOptions,
+    CronConfig,
+    CronJob,
+    CronAdminOptions,
+    Session,
+    SessionData,
+    SessionOptions,
+    SessionStore,
+    StoredSession,
 } from '@Types';
@@ -0,0 +1,103 @@
+// Import types
+import type {
+    RouteSchema,
+    Middleware,
+    apiRequest,
+    apiResponse,
+    apiNext,
+    ResponseValidationMode,
+    ServerOptions,
+} from '@Types';
+
+// Import utils
+import { formatErrorResponse, httpErrorDetails } from '@utils/error.js';
+
+/**
+ * Creates a middleware function that validates outgoing JSON responses
+ * according to the response schemas for the current HTTP method.
+ *
+ * Only JSON responses with a status that has a schema are checked. What
+ * happens on a contract violation depends on the mode:
+ * - `log`: the violation is logged and the response is sent unchanged.
+ * - `error`: the violation is logged and a 500 response is sent instead.
+ * - `strip`: the parsed output is sent, so keys the schema doesn't declare
+ *   are removed. Violations are logged and the response is sent unchanged.
+ *
+ * @param schema - The route schema with the response schemas.
+ * @param mode - What to do with the response.
+ * @param errorFormat - The format of the 500 response (see ServerOptions.errorFormat).
+ * @returns A middleware function that validates the response of the rest of
+ * the chain.
+ */
+export function createResponseValidationMiddleware(
+    schema: RouteSchema,
+    mode: ResponseValidationMode,
+    errorFormat?: ServerOptions['errorFormat']
+): Middleware {
+    return async (req: apiRequest, res: apiResponse, next: apiNext) => {
+        const response = await next();
+
+        // Determine the HTTP method (in lowercase) to match the schema.
+        // HEAD requests are answered by the GET handler.
+        const method = req.method.toLowerCase();
+        const methodSchema =
+            schema[method] ?? (method === 'head' ? schema.get : undefined);
+        const responseSchema = methodSchema?.response?.[response.status];
+
+        // If there's no schema for this status, or the body isn't JSON, send it as is.
+        const contentType = response.headers.get('Content-Type') || '';
+        if (
+            !responseSchema ||
+            !response.body ||
+            !contentType.includes('application/json')
+        ) {
+            return response;
+        }
+
+        let data: unknown;
+        try {
+            data = await response.clone().json();
+        } catch {
+            // Not valid JSON, nothing to validate against.
+            return response;
+        }
+
+        const result = responseSchema.safeParse(data);
+        if (!result.success) {
+            console.error(
+                `Response for ${req.method} ${new URL(req.url).pathname} does not match the schema for status ${response.status}:`,
+                result.error.issues
+            );
+            if (mode === 'error') {
+                return formatErrorResponse(
+                    httpErrorDetails(500, {
+                        detail: 'Response validation failed',
+                        code: 'RESPONSE_VALIDATION_FAILED',
+                        issues: result.error.issues.map((issue) => ({
+                            field: 'response',
+                            path: issue.path.join('.'),
+                            message: issue.message,
+                            code: issue.code,
+                        })),
+                        cause: result.error,
+                    }),
+                    req,
+                    errorFormat
+                );
+            }
+            return response;
+        }
+
+        if (mode === 'strip') {
+            const headers = new Headers(response.headers);
+            headers.delete('Content-Length');
+            return new Response(JSON.stringify(result.data), {
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+            });
+        }
+
+        return response;
+    };
+}
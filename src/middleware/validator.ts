@@ -5,18 +5,128 @@ import type {
     apiRequest,
     apiResponse,
     apiNext,
+    BodyContentType,
+    ServerOptions,
+    ValidationIssue,
 } from '@Types';
 
+// Import utils
+import { parseQuery, coerceToSchema } from '@utils/query.js';
+import { formatErrorResponse, httpErrorDetails } from '@utils/error.js';
+
+// Import errors
+import { PayloadTooLarge } from '@core/errors.js';
+
+/**
+ * The body content types accepted when a schema doesn't list its own.
+ */
+const BODY_CONTENT_TYPES: BodyContentType[] = [
+    'application/json',
+    'multipart/form-data',
+    'application/x-www-form-urlencoded',
+];
+
+/**
+ * The largest body read for validation when ServerOptions.maxBodySize is not set.
+ */
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Reads the request body, stopping as soon as it exceeds the size limit.
+ * @param req - The request.
+ * @param maxBodySize - The size limit in bytes.
+ * @returns The body.
+ * @throws {PayloadTooLarge} If the body is larger than the limit.
+ */
+async function readBody(req: apiRequest, maxBodySize: number): Promise<Uint8Array> {
+    const tooLarge = () =>
+        new PayloadTooLarge(`Request body exceeds ${maxBodySize} bytes`, {
+            code: 'BODY_TOO_LARGE',
+        });
+    if (Number(req.headers.get('Content-Length')) > maxBodySize) {
+        throw tooLarge();
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = req.body?.getReader();
+    while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBodySize) {
+            await reader.cancel();
+            throw tooLarge();
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return body;
+}
+
+/**
+ * Converts form data into an object for validation, like a query string:
+ * repeated fields become arrays and bracket fields (`items[0][name]`) nested
+ * objects (see parseQuery). File fields keep their `File` objects; empty file
+ * inputs (no file chosen) are left out.
+ * @param formData - The parsed form data.
+ * @returns An object with the form fields.
+ */
+function formDataToObject(formData: FormData): Record<string, unknown> {
+    const fields: [string, string | File][] = [];
+    formData.forEach((value, key) => {
+        if (!(value instanceof File && value.size === 0 && !value.name)) {
+            fields.push([key, value]);
+        }
+    });
+    return parseQuery(fields);
+}
+
+/**
+ * Converts the collected validation errors into client-facing issues,
+ * one per invalid value, without Zod internals.
+ * @param errors - The validation errors per request part.
+ * @returns The validation issues.
+ */
+function toValidationIssues(
+    errors: { field: string; error: any }[]
+): ValidationIssue[] {
+    return errors.flatMap(({ field, error }) => {
+        const zodIssues = error?.issues ?? (Array.isArray(error) ? error : undefined);
+        if (!zodIssues) {
+            return [{ field, path: '', message: String(error) }];
+        }
+        return zodIssues.map((issue: any) => ({
+            field,
+            path: (issue.path ?? []).join('.'),
+            message: issue.message,
+            code: issue.code,
+        }));
+    });
+}
+
 /**
  * Creates a middleware function that validates request data according to the
  * given schema for the current HTTP method.
  *
  * @param schema - The route schema to validate against.
+ * @param errorFormat - The format of the 400 response (see ServerOptions.errorFormat).
+ * @param maxBodySize - The largest body read, in bytes (see ServerOptions.maxBodySize).
  * @returns A middleware function that validates request data and attaches the
  * validated data to the request if successful, or returns a 400 response with
  * error details if validation fails.
  */
-export function createValidationMiddleware(schema: RouteSchema): Middleware {
+export function createValidationMiddleware(
+    schema: RouteSchema,
+    errorFormat?: ServerOptions['errorFormat'],
+    maxBodySize: number = DEFAULT_MAX_BODY_SIZE
+): Middleware {
     return async (
         req: apiRequest,
         res: apiResponse,
@@ -30,8 +140,10 @@ export function createValidationMiddleware(schema: RouteSchema): Middleware {
         // Determine the HTTP method (in lowercase) to match the schema.
         const method = req.method.toLowerCase();
 
-        // Get the schema for the current method.
-        const methodSchema = schema[method];
+        // Get the schema for the current method. HEAD requests are answered
+        // by the GET handler, so they are validated against the GET schema.
+        const methodSchema =
+            schema[method] ?? (method === 'head' ? schema.get : undefined);
 
         // If there's no schema for this method, continue.
         if (!methodSchema) {
@@ -55,7 +167,9 @@ export function createValidationMiddleware(schema: RouteSchema): Middleware {
          *
          * - `params`: Validated URL parameters.
          * - `query`: Validated query parameters.
-         * - `body`: Validated request body (if JSON).
+         * - `body`: Validated request body (JSON or form data).
+         * - `headers`: Validated request headers.
+         * - `cookies`: Validated request cookies.
          */
         const validated: apiRequest['validated'] = {};
 
@@ -77,7 +191,7 @@ export function createValidationMiddleware(schema: RouteSchema): Middleware {
         if (methodSchema.query) {
             try {
                 const result = methodSchema.query.safeParse(
-                    Object.fromEntries(req.query.entries())
+                    coerceToSchema(methodSchema.query, parseQuery(req.query))
                 );
                 if (result.success) {
                     validated.query = result.data;
@@ -89,20 +203,74 @@ export function createValidationMiddleware(schema: RouteSchema): Middleware {
             }
         }
 
+        // Validate request headers (names are lowercase).
+        if (methodSchema.headers) {
+            try {
+                const headers: Record<string, string> = {};
+                req.headers.forEach((value, name) => {
+                    headers[name] = value;
+                });
+                const result = methodSchema.headers.safeParse(headers);
+                if (result.success) {
+                    validated.headers = result.data;
+                } else {
+                    errors.push({ field: 'headers', error: result.error });
+                }
+            } catch (e: any) {
+                errors.push({ field: 'headers', error: e.errors });
+            }
+        }
+
+        // Validate request cookies.
+        if (methodSchema.cookies) {
+            try {
+                const result = methodSchema.cookies.safeParse(
+                    Object.fromEntries(req.parsedCookies ?? [])
+                );
+                if (result.success) {
+                    validated.cookies = result.data;
+                } else {
+                    errors.push({ field: 'cookies', error: result.error });
+                }
+            } catch (e: any) {
+                errors.push({ field: 'cookies', error: e.errors });
+            }
+        }
+
         // Validate request body.
         if (methodSchema.body) {
-            // Check the Content-Type header.
+            // Check the Content-Type header against the accepted body types.
             const contentType = req.headers.get('Content-Type') || '';
-            if (!contentType.includes('application/json')) {
-                // If not JSON, push an error indicating the expected content type.
+            const accepted = methodSchema.contentTypes ?? BODY_CONTENT_TYPES;
+            const bodyType = accepted.find((type) =>
+                contentType.toLowerCase().includes(type)
+            );
+            if (!bodyType) {
+                // If not accepted, push an error indicating the expected content types.
                 errors.push({
                     field: 'body',
-                    error: "Invalid Content-Type. Expected 'application/json'.",
+                    error: `Invalid Content-Type. Expected ${accepted
+                        .map((type) => `'${type}'`)
+                        .join(' or ')}.`,
                 });
             } else {
+                // Read the body before parsing it, so oversized bodies are
+                // rejected with a 413 instead of being buffered whole.
+                const body = await readBody(req, maxBodySize);
                 try {
-                    // Attempt to parse the JSON body.
-                    const bodyData = await req.json();
+                    // Parse the JSON or form body. Form fields are strings,
+                    // so they are coerced like query parameters.
+                    const bodyData =
+                        bodyType === 'application/json'
+                            ? JSON.parse(new TextDecoder().decode(body))
+                            : coerceToSchema(
+                                  methodSchema.body,
+                                  formDataToObject(
+                                      await new Response(body, {
+                                          headers: { 'Content-Type': contentType },
+                                      }).formData()
+                                  )
+                              );
                     const result = methodSchema.body.safeParse(bodyData);
                     if (result.success) {
                         validated.body = result.data;
@@ -120,7 +288,16 @@ export function createValidationMiddleware(schema: RouteSchema): Middleware {
 
         if (errors.length > 0) {
             // If validation fails, return a 400 response with error details.
-            return res.status(400).json({ errors });
+            return formatErrorResponse(
+                httpErrorDetails(400, {
+                    detail: 'Request validation failed',
+                    code: 'VALIDATION_FAILED',
+                    issues: toValidationIssues(errors),
+                    cause: errors,
+                }),
+                req,
+                errorFormat
+            );
         }
 
         // Attach validated data to the request.
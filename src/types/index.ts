@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { HttpError } from '@core/errors';
 export type { BunRequest } from 'bun';
 
 export interface ServerOptions {
@@ -53,59 +54,85 @@ export interface ServerOptions {
      */
     debug?: boolean;
 
+    /**
+     * Enables dev mode. The API, page and socket directories are watched,
+     * and changed route modules are re-imported without restarting the server.
+     * In-flight requests and open WebSockets are kept during reloads.
+     */
+    dev?: boolean;
+
+    /**
+     * Prints a table of the API routes when the server starts, with the
+     * methods, middleware count, validated request parts and source file of each.
+     */
+    printRoutes?: boolean;
+
     /**
      * Allow cookies and parse them automatically
      */
     cookie?: boolean;
 
+    /**
+     * Secrets for signed and encrypted cookies (`res.signedCookie()`,
+     * `res.encryptedCookie()`) and sessions without their own secret.
+     * The first secret signs and encrypts; all of them are tried when
+     * reading, so secrets can be rotated by adding a new one in front.
+     */
+    secrets?: string[];
+
     /**
      * Cors configuration for the API. This is an optional property that can be used
      * to configure Cross-Origin Resource Sharing (CORS) for the API.
+     * Routes can override it through `config.cors` (see RouteConfig).
      */
-    cors?: {
-        /**
-         * The Access-Control-Allow-Origin header value.
-         * This can be a string or an array of strings.
-         */
-        origin?: string | string[] | true;
+    cors?: CorsOptions;
 
-        /**
-         * The Access-Control-Allow-Methods header value.
-         * This can be a string or an array of strings.
-         */
-        methods?: string | string[];
+    /**
+     * Validation of outgoing JSON responses against the `response` schemas
+     * of a route (see RouteSchema).
+     * - `'log'`: log contract violations (default in debug mode).
+     * - `'error'`: log contract violations and respond with a 500 instead.
+     * - `'strip'`: send the parsed output, removing undeclared keys, e.g. to
+     *   avoid leaking internal fields in production. Violations are logged.
+     * - `false`: don't validate responses (default outside debug mode).
+     */
+    responseValidation?: ResponseValidationMode | false;
 
-        /**
-         * The Access-Control-Allow-Headers header value.
-         * This can be a string or an array of strings.
-         */
-        allowedHeaders?: string | string[];
+    /**
+     * The largest request body, in bytes, read for validation against a
+     * `body` schema (default 10 MiB). Larger bodies are answered with a 413
+     * before they are parsed.
+     */
+    maxBodySize?: number;
 
-        /**
-         * The Access-Control-Expose-Headers header value.
-         * This can be a string or an array of strings.
-         */
-        exposedHeaders?: string | string[];
+    /**
+     * How error responses (validation failures, 404/405 and unhandled errors)
+     * are formatted.
+     * - `'json'`: the default `{ error }` and `{ errors }` bodies.
+     * - `'problem'`: RFC 7807 `application/problem+json` bodies.
+     * - A function: builds the body (or a whole Response) from the error.
+     */
+    errorFormat?: 'json' | 'problem' | ErrorFormatter;
 
-        /**
-         * The Access-Control-Allow-Credentials header value.
-         * This can be a boolean.
-         */
-        credentials?: boolean;
+    /**
+     * Called for errors thrown by any route, middleware, SSE or WebSocket
+     * handler, after the route and folder hooks (see ErrorHook).
+     */
+    onError?: ErrorHook;
 
-        /**
-         * The Access-Control-Max-Age header value.
-         * This can be a number.
-         */
-        maxAge?: number;
-    };
+    /**
+     * Lifecycle hooks that run for every API request (see LifecycleHooks).
+     * More can be added with `BreezeAPI.addHook`.
+     */
+    hooks?: LifecycleHooks;
 
     config?: {
         /**
          * Use Session middleware for the API. This is an optional property that can be used
-         * to enable session management for the API.
+         * to enable session management for the API (see SessionOptions).
+         * Sessions are available as `req.session` in middleware and handlers.
          */
-        session?: boolean;
+        session?: boolean | SessionOptions;
 
         /**
          * Use Cookie middleware for the API. This is an optional property that can be used
@@ -115,10 +142,163 @@ export interface ServerOptions {
     }
 }
 
+/**
+ * What to do with outgoing JSON responses that have a response schema.
+ * See `ServerOptions.responseValidation`.
+ */
+export type ResponseValidationMode = 'log' | 'error' | 'strip';
+
+/**
+ * A single invalid field of a request that failed validation.
+ */
+export interface ValidationIssue {
+    /**
+     * The part of the request, e.g. "body" or "query".
+     */
+    field: string;
+
+    /**
+     * The path of the invalid value within that part, e.g. "filter.status".
+     * Empty if the whole part is invalid.
+     */
+    path: string;
+
+    /**
+     * A human-readable description of the problem.
+     */
+    message: string;
+
+    /**
+     * A machine-readable issue code, e.g. "invalid_type".
+     */
+    code?: string;
+}
+
+/**
+ * Describes an error response before it is formatted
+ * (see `ServerOptions.errorFormat`).
+ */
+export interface ErrorDetails {
+    /**
+     * The HTTP status code.
+     */
+    status: number;
+
+    /**
+     * A short, human-readable summary of the problem type, e.g. "Not Found".
+     */
+    title: string;
+
+    /**
+     * A human-readable explanation specific to this occurrence.
+     */
+    detail?: string;
+
+    /**
+     * A URI reference that identifies the problem type (default "about:blank").
+     */
+    type?: string;
+
+    /**
+     * A machine-readable error code, e.g. "VALIDATION_FAILED".
+     */
+    code?: string;
+
+    /**
+     * The invalid fields, for validation failures.
+     */
+    issues?: ValidationIssue[];
+
+    /**
+     * Additional data for the client, e.g. from a thrown HttpError.
+     */
+    details?: unknown;
+
+    /**
+     * Headers to add to the response, e.g. `Allow` for 405 responses.
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The underlying error: the thrown error, or the raw validation errors.
+     */
+    cause?: unknown;
+}
+
+/**
+ * Formats an error response. Returns the JSON body, which is sent with the
+ * status and headers of the error, or a Response to send as is.
+ */
+export type ErrorFormatter = (error: ErrorDetails, req: Request) => unknown;
+
+/**
+ * Cross-Origin Resource Sharing (CORS) options, used globally through
+ * `ServerOptions.cors` and per route through `RouteConfig.cors`.
+ */
+export interface CorsOptions {
+    /**
+     * The origins allowed to make cross-origin requests.
+     * - `'*'` or `true`: any origin (`true` echoes the request origin).
+     *   Credentials are not allowed for any origin, so `credentials` is
+     *   ignored with these policies.
+     * - A string or RegExp: a single origin or origin pattern.
+     * - An array of strings and RegExps: any of the listed origins.
+     * - A function: decides per request, may be async.
+     *
+     * Only the single matching request origin is echoed back in the
+     * Access-Control-Allow-Origin header, together with `Vary: Origin`.
+     * Disallowed origins get no CORS headers.
+     */
+    origin?:
+        | string
+        | RegExp
+        | Array<string | RegExp>
+        | true
+        | ((origin: string, req: apiRequest) => boolean | Promise<boolean>);
+
+    /**
+     * The Access-Control-Allow-Methods header value.
+     * This can be a string or an array of strings.
+     */
+    methods?: string | string[];
+
+    /**
+     * The Access-Control-Allow-Headers header value.
+     * This can be a string or an array of strings.
+     */
+    allowedHeaders?: string | string[];
+
+    /**
+     * The Access-Control-Expose-Headers header value.
+     * This can be a string or an array of strings.
+     */
+    exposedHeaders?: string | string[];
+
+    /**
+     * The Access-Control-Allow-Credentials header value.
+     * This can be a boolean.
+     */
+    credentials?: boolean;
+
+    /**
+     * The Access-Control-Max-Age header value.
+     * This can be a number.
+     */
+    maxAge?: number;
+}
+
+/**
+ * Parameters extracted from the request path. Single dynamic segments are
+ * strings, catch-all segments are arrays of the remaining path segments.
+ */
+export type RouteParams = Record<string, string | string[]>;
+
 export type DefaultRequestProperties = {
     params?: Record<string, unknown>;
     query?: Record<string, unknown>;
     body?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+    cookies?: Record<string, unknown>;
 };
 
 export interface apiRequest<
@@ -141,8 +321,11 @@ export interface apiRequest<
      *
      * For example, if the route is `/users/:id`, and the request path is
      * `/users/123`, then the `params` property will be `{ id: '123' }`.
+     *
+     * Catch-all segments (`[...path]` or `[[...slug]]`) capture the rest of
+     * the path as an array, e.g. `/files/a/b` gives `{ path: ['a', 'b'] }`.
      */
-    params?: Record<string, string>;
+    params?: RouteParams;
 
     /**
      * Contains validated data for the request.
@@ -153,14 +336,55 @@ export interface apiRequest<
      * Properties:
      * - `params`: Validated URL parameters.
      * - `query`: Validated query string parameters.
-     * - `body`: Validated request body (if JSON).
+     * - `body`: Validated request body (JSON or form data).
+     * - `headers`: Validated request headers (names in lowercase).
+     * - `cookies`: Validated request cookies.
      */
     validated: RequestValidatedProperties;
 
+    /**
+     * The cookies sent with the request, parsed from the 'Cookie' header.
+     */
+    parsedCookies: Map<string, string>;
+
+    /**
+     * BreezeAPI: The response of the request, e.g. for the cookie helpers.
+     */
+    res?: apiResponse;
+
+    /**
+     * Gets the value of a cookie.
+     * @param name - The cookie name.
+     * @returns The value, or undefined if the cookie doesn't exist.
+     */
+    getCookie(name: string): string | undefined;
+
+    /**
+     * Gets the value of a cookie set with `res.signedCookie()`.
+     * @param name - The cookie name.
+     * @returns The value, or undefined if the cookie doesn't exist or was tampered with.
+     */
+    getSignedCookie(name: string): string | undefined;
+
+    /**
+     * Gets the value of a cookie set with `res.encryptedCookie()`.
+     * @param name - The cookie name.
+     * @returns The value, or undefined if the cookie doesn't exist or was tampered with.
+     */
+    getEncryptedCookie(name: string): Promise<string | undefined>;
+
+    /**
+     * BreezeAPI: The session of the request, when sessions are enabled
+     * through `config.session`.
+     */
+    session: Session;
+
     /**
      * Method to save session
+     * Sessions are saved automatically after the handler; call this to save
+     * changes earlier, e.g. before streaming a response.
      */
-    saveSession: () => void;
+    saveSession: () => Promise<void>;
 
     /**
      * Node.js/Bun compatibility: Listen for events (e.g., 'close', 'error').
@@ -262,6 +486,18 @@ export interface apiRequest<
      */
     keepalive: boolean;
 
+    /**
+     * BreezeAPI: The route definition matched for this request, if any.
+     * For unmatched requests, this is the not-found.ts or method-not-allowed.ts handling it.
+     */
+    route?: RouteDefinition;
+
+    /**
+     * BreezeAPI: The methods the requested path answers, when it doesn't answer
+     * the request method (set for method-not-allowed.ts handlers).
+     */
+    allowedMethods?: string[];
+
     /**
      * BreezeAPI: Middleware storage for the request.
      * This property is used to store middleware-specific data that can be
@@ -282,7 +518,7 @@ export interface apiRequest<
 
 }
 
-export interface apiResponse {
+export interface apiResponse<ResponseBody = unknown> {
     /**
      * Sets a header value.
      * @param name - The header name.
@@ -333,7 +569,7 @@ export interface apiResponse {
      * @param data - The data to send.
      * @returns The final Response object.
      */
-    json(data: unknown): Response;
+    json(data: ResponseBody): Response;
 
     /**
      * Convenience method to send a plain text response.
@@ -401,6 +637,35 @@ export interface apiResponse {
      */
     cookie(name: string, value: string, options?: CookieOptions): this;
 
+    /**
+     * Set a cookie signed with the first of `secrets` (see ServerOptions.secrets),
+     * so the client can't change it. Read it with `req.getSignedCookie()`.
+     * @param name - The cookie name.
+     * @param value - The cookie value.
+     * @param options - Optional cookie settings.
+     * @returns The current instance for chaining.
+     */
+    signedCookie(name: string, value: string, options?: CookieOptions): this;
+
+    /**
+     * Set a cookie encrypted with the first of `secrets` (see ServerOptions.secrets),
+     * so the client can neither read nor change it. Read it with `req.getEncryptedCookie()`.
+     * @param name - The cookie name.
+     * @param value - The cookie value.
+     * @param options - Optional cookie settings.
+     * @returns The current instance, once the value is encrypted.
+     */
+    encryptedCookie(name: string, value: string, options?: CookieOptions): Promise<this>;
+
+    /**
+     * Adds the cookies set on this response to a Response that doesn't have
+     * them yet, e.g. one built without `res`. Done for the final Response of
+     * every request.
+     * @param response - The Response to send.
+     * @returns The Response with all cookies; a copy if its headers are immutable.
+     */
+    applyCookies(response: Response): Response;
+
     /**
      * Bun/Node.js: Write data to the response stream (for SSE, etc.).
      * If supported by the underlying server.
@@ -483,6 +748,159 @@ export interface CookieOptions {
      * The HttpOnly flag of the cookie.
      */
     httpOnly?: boolean;
+
+    /**
+     * The Partitioned flag of the cookie (CHIPS): third-party cookies are
+     * kept per top-level site. Browsers require `secure` with it.
+     */
+    partitioned?: boolean;
+
+    /**
+     * The Priority of the cookie, which browsers use to choose which cookies
+     * to evict first when there are too many.
+     */
+    priority?: 'low' | 'medium' | 'high';
+}
+
+/**
+ * The data of a session.
+ */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * A session as kept by a SessionStore.
+ */
+export interface StoredSession {
+    /**
+     * The session data.
+     */
+    data: SessionData;
+
+    /**
+     * When the session expires, in milliseconds since the epoch.
+     */
+    expires: number;
+}
+
+/**
+ * Keeps the sessions, e.g. in memory (MemoryStore) or in SQLite (SqliteStore).
+ * Implement it to keep sessions elsewhere, e.g. in Redis.
+ */
+export interface SessionStore {
+    /**
+     * Gets a session.
+     * @param id - The session id.
+     * @returns The session, or undefined if it doesn't exist or has expired.
+     */
+    get(id: string): Promise<StoredSession | undefined> | StoredSession | undefined;
+
+    /**
+     * Creates or replaces a session.
+     * @param id - The session id.
+     * @param session - The session data and expiry.
+     */
+    set(id: string, session: StoredSession): Promise<void> | void;
+
+    /**
+     * Deletes a session.
+     * @param id - The session id.
+     */
+    destroy(id: string): Promise<void> | void;
+}
+
+/**
+ * Options of `config.session`.
+ */
+export interface SessionOptions {
+    /**
+     * The secret the session id cookie is signed with. With several secrets,
+     * the first one signs and all of them verify, so secrets can be rotated.
+     * Defaults to ServerOptions.secrets. Without any secret, a random one is
+     * generated on every start.
+     */
+    secret?: string | string[];
+
+    /**
+     * The name of the session id cookie. Defaults to "sid".
+     */
+    cookieName?: string;
+
+    /**
+     * How long a session lasts, in seconds. Defaults to one day.
+     */
+    maxAge?: number;
+
+    /**
+     * Restarts the expiry of a session used once less than half of `maxAge`
+     * is left, so sessions only expire after a period of inactivity. The
+     * store entry and cookie are rewritten then, or when the data changes,
+     * not on every request. Defaults to true.
+     */
+    rolling?: boolean;
+
+    /**
+     * Options of the session id cookie. Defaults to `{ path: '/', httpOnly: true, sameSite: 'lax' }`.
+     */
+    cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+
+    /**
+     * Where sessions are kept. Defaults to a MemoryStore.
+     */
+    store?: SessionStore;
+}
+
+/**
+ * The session of a request (`req.session`).
+ * New sessions are only stored, and their cookie only set, once data is set.
+ */
+export interface Session {
+    /**
+     * The session id.
+     */
+    readonly id: string;
+
+    /**
+     * Whether the session was created by this request.
+     */
+    readonly isNew: boolean;
+
+    /**
+     * Gets a value of the session.
+     * @param key - The key.
+     * @returns The value, or undefined if it is not set.
+     */
+    get<T = unknown>(key: string): T | undefined;
+
+    /**
+     * Sets a value of the session.
+     * @param key - The key.
+     * @param value - The value, which must be JSON serializable.
+     */
+    set(key: string, value: unknown): void;
+
+    /**
+     * Removes a value from the session.
+     * @param key - The key.
+     */
+    delete(key: string): void;
+
+    /**
+     * Deletes the session from the store and clears its cookie. Values set
+     * afterwards start a new session.
+     */
+    destroy(): Promise<void>;
+
+    /**
+     * Replaces the session with a new, empty one with a new id, e.g. after
+     * login to prevent session fixation.
+     */
+    regenerate(): Promise<void>;
+
+    /**
+     * Saves the session to the store if it changed, or to restart its expiry
+     * when `rolling` is enabled.
+     */
+    save(): Promise<void>;
 }
 
 /**
@@ -507,6 +925,287 @@ export type RequestHandler = (
     response: apiResponse
 ) => Promise<Response> | Response;
 
+/**
+ * Handles an error thrown while handling a request.
+ * - Return a Response to send it instead of the error response.
+ * - Return nothing to pass the error on, e.g. after reporting it.
+ * - Throw to replace the error for the next hooks (e.g. a thrown HttpError).
+ *
+ * Hooks run from the route (`export function onError`), to its folders'
+ * `middleware.ts` files (inner to outer), to `ServerOptions.onError`.
+ * For WebSocket handlers, `req` is the upgrade request and the returned
+ * Response is ignored.
+ */
+export type ErrorHook = (
+    error: unknown,
+    request: apiRequest,
+    response: apiResponse
+) => Response | void | Promise<Response | void>;
+
+/**
+ * A lifecycle hook that runs at a stage of the request (see LifecycleHooks).
+ * Return a Response to send it right away; the rest of the request, including
+ * later hooks of the same stage, is skipped. Errors thrown are handled like
+ * errors thrown by the handler.
+ */
+export type RequestHook = (
+    request: apiRequest,
+    response: apiResponse
+) => Response | void | Promise<Response | void>;
+
+/**
+ * A lifecycle hook that runs once the Response is built, before it is sent,
+ * including for error responses. Return a Response to replace it for the
+ * hooks after it and the client, e.g. to stamp headers onto a copy.
+ */
+export type OnSendHook = (
+    request: apiRequest,
+    response: apiResponse,
+    payload: Response
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Timing of a completed request, in milliseconds.
+ */
+export interface ResponseTiming {
+    /**
+     * When the request was received, as a `performance.now()` timestamp.
+     */
+    start: number;
+
+    /**
+     * How long it took to handle the request and send the response body,
+     * including the onSend hooks and streamed (e.g. SSE) bodies.
+     */
+    duration: number;
+
+    /**
+     * Whether the body was cut short, e.g. because the client disconnected.
+     */
+    aborted: boolean;
+}
+
+/**
+ * A lifecycle hook that runs once the response body has been sent (or the
+ * client stopped reading it), e.g. for metrics or logging. It can't change
+ * the response, whose body has already been consumed, and errors it throws are logged.
+ */
+export type OnResponseHook = (
+    request: apiRequest,
+    payload: Response,
+    timing: ResponseTiming
+) => void | Promise<void>;
+
+/**
+ * The lifecycle hooks by stage, in the order they run:
+ * - `onRequest`: before the request is routed.
+ * - `preValidation`: after global middleware, before the request is validated.
+ * - `preHandler`: after validation and the route's middleware, before the handler.
+ * - `onSend`: after the response is built, before it is sent.
+ * - `onResponse`: after the response body has been sent.
+ */
+export interface LifecycleHookMap {
+    onRequest: RequestHook;
+    preValidation: RequestHook;
+    preHandler: RequestHook;
+    onSend: OnSendHook;
+    onResponse: OnResponseHook;
+}
+
+/**
+ * The name of a lifecycle stage, e.g. "onSend".
+ */
+export type LifecycleHookName = keyof LifecycleHookMap;
+
+/**
+ * Lifecycle hooks, as a single hook or a list of hooks per stage.
+ */
+export type LifecycleHooks = {
+    [K in LifecycleHookName]?: LifecycleHookMap[K] | LifecycleHookMap[K][];
+};
+
+/**
+ * Options of a single-method route registered in code, e.g. with `app.get`.
+ */
+export interface MethodRouteOptions<S extends RouteSchema[string] = RouteSchema[string]> {
+    /**
+     * The request and response schemas of the method.
+     */
+    schema?: S;
+
+    /**
+     * The configuration of the method, stored as `config.<method>` of the route:
+     * its guards, middleware, CORS policy and hooks apply to this method only.
+     * Route-wide settings like `allow` are set through `route()`.
+     */
+    config?: RouteConfig;
+
+    /**
+     * The OpenAPI metadata of the method.
+     */
+    openapi?: openapi[string];
+}
+
+/**
+ * Options of a multi-method route registered in code with `route`.
+ * Schemas and OpenAPI metadata are keyed by method, as in a `route.ts` file.
+ */
+export interface RouteOptions<S extends RouteSchema = RouteSchema> {
+    schema?: S;
+    config?: RouteConfig;
+    openapi?: openapi;
+}
+
+/**
+ * The method handlers of a route registered in code with `route`, with
+ * `req.validated` typed from the schema of each method.
+ */
+export type RouteHandlers<S extends RouteSchema = RouteSchema> = Omit<
+    RouteModuleDefinition<S>,
+    'schema' | 'config' | 'openapi' | 'middleware'
+>;
+
+/**
+ * A request handler typed from the schema of a single method.
+ */
+export type MethodRequestHandler<S extends RouteSchema[string]> =
+    TypedRequestHandler<InferValidated<S>, InferResponse<S>>;
+
+/**
+ * Options for registering a plugin, passed to the plugin along with its own options.
+ */
+export interface PluginRegisterOptions {
+    /**
+     * A path prefix, e.g. "/admin". The plugin's routes are registered below
+     * it, and its middleware and hooks only run for requests below it.
+     */
+    prefix?: string;
+}
+
+/**
+ * What a plugin can do with the API it is registered on. Middleware, hooks
+ * and routes are scoped to the plugin's prefix; decorators and config are global.
+ */
+export interface PluginContext {
+    /**
+     * The path prefix of the plugin, including those of its parents ("" if none).
+     */
+    readonly prefix: string;
+
+    /**
+     * Adds middleware that runs for requests below the prefix, after global middleware.
+     */
+    use(mw: Middleware): PluginContext;
+
+    /**
+     * Adds a lifecycle hook that runs for requests below the prefix.
+     */
+    addHook<K extends LifecycleHookName>(
+        stage: K,
+        hook: LifecycleHookMap[K]
+    ): PluginContext;
+
+    /**
+     * Registers routes below the prefix (see `BreezeAPI.get` and `BreezeAPI.route`).
+     */
+    get<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): PluginContext;
+    post<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): PluginContext;
+    put<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): PluginContext;
+    patch<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): PluginContext;
+    delete<S extends RouteSchema[string] = {}>(
+        path: string,
+        handler: MethodRequestHandler<S>,
+        options?: MethodRouteOptions<S>
+    ): PluginContext;
+    route<S extends RouteSchema = {}>(
+        path: string,
+        handlers: RouteHandlers<S>,
+        options?: RouteOptions<S>
+    ): PluginContext;
+
+    /**
+     * Adds a property to every request below the prefix, e.g. a helper method.
+     * Objects are shared between requests; set per-request values in an `onRequest` hook.
+     * @throws {Error} If the property already exists, also below another prefix.
+     */
+    decorateRequest(name: string, value: unknown): PluginContext;
+
+    /**
+     * Adds a property to every response object below the prefix.
+     * @throws {Error} If the property already exists, also below another prefix.
+     */
+    decorateResponse(name: string, value: unknown): PluginContext;
+
+    /**
+     * Sets or gets a value in the global config registry (see `BreezeAPI.config`).
+     */
+    config<T = any>(key: string, value?: T): T | undefined;
+
+    /**
+     * Registers a child plugin, which is loaded once this plugin has finished
+     * registering. Its prefix is appended to this plugin's prefix.
+     */
+    register<O extends object = {}>(
+        plugin: Plugin<O>,
+        options?: O & PluginRegisterOptions
+    ): PluginContext;
+
+    /**
+     * Checks whether a named plugin has been registered.
+     */
+    hasPlugin(name: string): boolean;
+}
+
+/**
+ * A plugin function. It may be async; plugins are loaded one at a time, in
+ * the order they are registered.
+ */
+export type PluginFunction<O extends object = {}> = (
+    app: PluginContext,
+    options: O & PluginRegisterOptions
+) => void | Promise<void>;
+
+/**
+ * A named plugin, which other plugins can depend on (see `definePlugin`).
+ */
+export interface PluginDefinition<O extends object = {}> {
+    /**
+     * The unique name of the plugin.
+     */
+    name: string;
+
+    /**
+     * Names of plugins that must be registered before this one.
+     */
+    dependencies?: string[];
+
+    /**
+     * Registers the plugin's middleware, hooks, routes and decorators.
+     */
+    register: PluginFunction<O>;
+}
+
+/**
+ * A plugin, as a function or a named definition.
+ */
+export type Plugin<O extends object = {}> = PluginFunction<O> | PluginDefinition<O>;
+
 /**
  * Represents a middleware function in the request handling pipeline.
  * Middleware functions have the ability to modify the request and response
@@ -551,6 +1250,12 @@ export interface RouteDefinition {
      */
     middleware?: Middleware[];
 
+    /**
+     * The guards and middleware of the methods with their own `config.<method>`,
+     * by lowercase method. They replace the route's middleware for that method.
+     */
+    methodMiddleware?: { [method: string]: Middleware[] };
+
     /**
      * An optional route schema to validate the request data against.
      * This property is set by the user when defining a route.
@@ -572,6 +1277,36 @@ export interface RouteDefinition {
      * Configuration for the route.
      */
     config: RouteConfig;
+
+    /**
+     * The effective CORS policy of the route, combining the `config.ts` files
+     * of its folders with the route's own `config.cors`.
+     */
+    cors?: CorsOptions | false;
+
+    /**
+     * Guards and middleware from the `middleware.ts` files of the route's
+     * folders, outer to inner. They run before the route's own middleware.
+     */
+    inheritedMiddleware?: Middleware[];
+
+    /**
+     * HTTP methods the framework derived for this route instead of the route
+     * exporting them (e.g. HEAD synthesized from GET). These are answered at
+     * runtime but left out of the OpenAPI document.
+     */
+    implicitMethods?: string[];
+
+    /**
+     * The route's own `onError` hook followed by those of its folders'
+     * `middleware.ts` files, inner to outer.
+     */
+    errorHooks?: ErrorHook[];
+
+    /**
+     * The file the route was loaded from. Undefined for routes registered in code.
+     */
+    file?: string;
 }
 
 
@@ -591,12 +1326,61 @@ export interface RouteConfig {
      */
     guards?: Array<Middleware> | Record<string, GuardDefinition>;
 
+    /**
+     * CORS policy for this route, merged over the folder and global policies.
+     * Set to `false` to send no CORS headers for this route. Method-specific
+     * policies can be set as `config.get.cors`, `config.post.cors`, etc., and
+     * are merged over the route's policy.
+     */
+    cors?: CorsOptions | false;
+
+    /**
+     * Overrides the methods listed in the `Allow` header of OPTIONS and 405
+     * responses. Defaults to the exported methods plus HEAD and OPTIONS.
+     */
+    allow?: string[];
+
+    /**
+     * Whether to answer HEAD requests with the GET handler (without a body)
+     * when the route does not export HEAD. Defaults to `true`.
+     */
+    autoHead?: boolean;
+
+    /**
+     * Lifecycle hooks for this route. They run after the global hooks of the
+     * same stage. `onRequest` hooks only run globally, before routing.
+     */
+    hooks?: Omit<LifecycleHooks, 'onRequest'>;
+
     /**
      * Allow for other configuration options
      */
     [key: string]: any;
 }
 
+/**
+ * Configuration inherited by every route below a folder, collected from
+ * `config.ts` files (e.g. in a `(group)` folder) while scanning the API directory.
+ */
+export interface FolderConfig {
+    /**
+     * CORS policy for all routes below the folder.
+     */
+    cors?: CorsOptions | false;
+
+    /**
+     * Guards and middleware from `middleware.ts` files of the folder and its
+     * parents, outer folders first.
+     */
+    middleware?: Middleware[];
+
+    /**
+     * `onError` hooks from `middleware.ts` files of the folder and its
+     * parents, inner folders first.
+     */
+    errorHooks?: ErrorHook[];
+}
+
 /**
  * Definition for a configurable middleware with options
  */
@@ -636,16 +1420,128 @@ export interface GuardDefinition {
  * For each HTTP method (in lowercase), you can optionally define:
  * - params: for URL parameters,
  * - query: for query string parameters,
- * - body: for the request body.
+ * - body: for the request body (JSON or form data),
+ * - contentTypes: the body content types to accept (default all),
+ * - headers: for the request headers (names in lowercase),
+ * - cookies: for the request cookies,
+ * - response: for the response body, per status code.
  */
 export type RouteSchema = {
     [method: string]: {
         params?: z.ZodTypeAny;
         query?: z.ZodTypeAny;
         body?: z.ZodTypeAny;
+        contentTypes?: BodyContentType[];
+        headers?: z.ZodTypeAny;
+        cookies?: z.ZodTypeAny;
+        response?: { [status: number]: z.ZodTypeAny };
     };
 };
 
+/**
+ * Request body content types the validation middleware can parse.
+ * Form bodies are validated as an object of their fields: repeated fields
+ * become arrays and uploads are `File` objects (see `fileField`).
+ */
+export type BodyContentType =
+    | 'application/json'
+    | 'multipart/form-data'
+    | 'application/x-www-form-urlencoded';
+
+/**
+ * Schemas for a single HTTP method of a route.
+ */
+export type RouteMethodSchema = RouteSchema[string];
+
+/**
+ * HTTP methods a route can export handlers for.
+ */
+export type HttpMethod =
+    | 'GET'
+    | 'POST'
+    | 'PUT'
+    | 'DELETE'
+    | 'PATCH'
+    | 'HEAD'
+    | 'OPTIONS';
+
+/**
+ * Infers the validated request properties (`req.validated`) from the schemas
+ * of a single HTTP method. Parts without a schema keep the default type.
+ */
+export type InferValidated<S> = {
+    params: S extends { params: z.ZodTypeAny }
+        ? z.output<S['params']>
+        : DefaultRequestProperties['params'];
+    query: S extends { query: z.ZodTypeAny }
+        ? z.output<S['query']>
+        : DefaultRequestProperties['query'];
+    body: S extends { body: z.ZodTypeAny }
+        ? z.output<S['body']>
+        : DefaultRequestProperties['body'];
+    headers: S extends { headers: z.ZodTypeAny }
+        ? z.output<S['headers']>
+        : DefaultRequestProperties['headers'];
+    cookies: S extends { cookies: z.ZodTypeAny }
+        ? z.output<S['cookies']>
+        : DefaultRequestProperties['cookies'];
+};
+
+/**
+ * Infers the body accepted by `res.json` from the response schemas of a
+ * single HTTP method: any of the declared responses. Without response
+ * schemas any body is accepted.
+ */
+export type InferResponse<S> = S extends {
+    response: infer R extends { [status: number]: z.ZodTypeAny };
+}
+    ? z.input<R[keyof R & number]>
+    : unknown;
+
+/**
+ * A request handler whose `req.validated` is typed from a route schema, and
+ * whose `res.json` only accepts the declared responses.
+ */
+export type TypedRequestHandler<
+    RequestValidatedProperties extends DefaultRequestProperties = DefaultRequestProperties,
+    ResponseBody = unknown
+> = (
+    request: apiRequest<RequestValidatedProperties>,
+    response: apiResponse<ResponseBody>
+) => Promise<Response> | Response;
+
+/**
+ * A route module definition as created by `defineRoute`.
+ * Each method handler gets `req.validated` inferred from the schema of that
+ * method (e.g. `GET` from `schema.get`).
+ */
+export type RouteModuleDefinition<S extends RouteSchema = RouteSchema> = {
+    /**
+     * Zod schemas per HTTP method (in lowercase).
+     */
+    schema?: S;
+
+    /**
+     * Configuration for the route.
+     */
+    config?: RouteConfig;
+
+    /**
+     * OpenAPI metadata per HTTP method (in lowercase).
+     */
+    openapi?: openapi;
+
+    /**
+     * Route middleware (legacy, prefer `config.middleware`).
+     */
+    middleware?: Middleware[];
+} & {
+    [M in HttpMethod]?: TypedRequestHandler<
+        InferValidated<Lowercase<M> extends keyof S ? S[Lowercase<M>] : {}>,
+        InferResponse<Lowercase<M> extends keyof S ? S[Lowercase<M>] : unknown>
+    >;
+};
+
 /**
  * Optional OpenAPI metadata to generate documentation for the route.
  * Each key is an HTTP method name (in lowercase) and the value is an object
@@ -665,6 +1561,12 @@ export type openapi = {
         operationId?: string;
         deprecated?: boolean;
         responses?: Record<string, any>;
+        /**
+         * The HttpErrors the method can throw, as classes (e.g. `NotFound`)
+         * or instances with a custom code. They are documented as error
+         * responses in the configured error format.
+         */
+        errors?: Array<HttpError | (new () => HttpError)>;
         externalDocs?: {
             description?: string;
             url?: string;
@@ -682,7 +1584,12 @@ export interface TrieNode {
     children: Map<string, TrieNode>; // Normal path pieces, like "users"
     paramChild?: TrieNode; // For dynamic pieces, like ":id"
     paramName?: string; // Name of the dynamic piece, like "id"
+    paramSource?: string; // The route that named the dynamic piece, for conflict errors
+    catchAllChild?: TrieNode; // For catch-all pieces, like ":path+" or ":slug*"
+    optional?: boolean; // Whether a catch-all piece also matches zero segments
     route?: RouteDefinition; // The route definition for the node
+    notFound?: RouteDefinition; // The not-found.ts handler for unmatched paths below the node
+    methodNotAllowed?: RouteDefinition; // The method-not-allowed.ts handler for unsupported methods below the node
 }
 
 // Add WebSocket types to the ServerOptions interface
@@ -694,6 +1601,18 @@ export interface ServerOptions {
      * If not specified, no WebSocket routes are loaded.
      */
     socketDir?: string;
+
+    /**
+     * The directory path to load cron jobs from (`cron.ts` files).
+     * If not specified, no cron jobs are run.
+     */
+    cronDir?: string;
+
+    /**
+     * Serves endpoints to list, trigger, pause and resume the cron jobs
+     * (see CronAdminOptions). `true` mounts them at "/cron" without guards.
+     */
+    cronAdmin?: boolean | CronAdminOptions;
 }
 
 
@@ -707,6 +1626,7 @@ export interface WebSocketData {
     id?: string;
     groupPath?: string;
     createdAt: number;
+    request?: apiRequest; // The upgrade request, passed to error hooks
 }
 
 // WebSocket handler interface
@@ -715,6 +1635,7 @@ export interface WebSocketHandler {
     message?: (ws: WebSocket & { data: WebSocketData }, message: string | Buffer, id?: string) => void;
     close?: (ws: WebSocket & { data: WebSocketData }, code: number, reason: string, id?: string) => void;
     drain?: (ws: WebSocket & { data: WebSocketData }, id?: string) => void;
+    onError?: ErrorHook;
 }
 
 // WebSocket route definition
@@ -731,3 +1652,116 @@ export interface WebSocketRouteDefinition {
  */
 export type SseSend = (data: any, event?: string) => void;
 
+
+/**
+ * The `cronConfig` export of a `cron.ts` file.
+ */
+export interface CronConfig {
+    /**
+     * Whether the job is scheduled. Defaults to `true`.
+     */
+    enabled?: boolean;
+
+    /**
+     * Run every `timeBetween` instead of on the `cronTime` schedule.
+     */
+    useTime?: boolean;
+
+    /**
+     * A cron expression with six fields (second minute hour day-of-month
+     * month day-of-week), e.g. "0 0 0 * * *" for every day at midnight.
+     */
+    cronTime?: string;
+
+    /**
+     * The IANA time zone `cronTime` is evaluated in, e.g. "Asia/Kolkata".
+     * Defaults to the server's time zone.
+     */
+    timeZone?: string;
+
+    /**
+     * The interval between runs when `useTime` is set, as milliseconds or
+     * a duration like "15m" or "1d".
+     */
+    timeBetween?: string | number;
+
+    /**
+     * Whether to also run the job when the scheduler starts.
+     */
+    runOnStart?: boolean;
+}
+
+/**
+ * A cron job loaded from a `cron.ts` file, with its run state.
+ */
+export interface CronJob {
+    /**
+     * The name of the job: the path of its folder in `cronDir`, e.g. "/cleanup/sessions".
+     */
+    name: string;
+
+    /**
+     * The `cron.ts` file of the job.
+     */
+    file: string;
+
+    /**
+     * The job's configuration.
+     */
+    config: CronConfig;
+
+    /**
+     * The default export of the `cron.ts` file.
+     */
+    handler: () => unknown;
+
+    /**
+     * Whether the job is scheduled.
+     */
+    enabled: boolean;
+
+    /**
+     * Whether the job is running right now.
+     */
+    running: boolean;
+
+    /**
+     * When the job runs next, if it is scheduled.
+     */
+    nextRun?: Date;
+
+    /**
+     * When the job last started.
+     */
+    lastRun?: Date;
+
+    /**
+     * How long the last run took, in milliseconds.
+     */
+    lastDuration?: number;
+
+    /**
+     * The error thrown by the last run, if it failed.
+     */
+    lastError?: unknown;
+}
+
+/**
+ * Options of the cron admin endpoints:
+ * - `GET {path}` lists the jobs.
+ * - `GET {path}/{job}` shows a job.
+ * - `POST {path}/{job}/run` runs a job now.
+ * - `POST {path}/{job}/pause` and `POST {path}/{job}/resume` stop and restart its schedule.
+ */
+export interface CronAdminOptions {
+    /**
+     * The path the endpoints are mounted at. Defaults to "/cron".
+     */
+    path?: string;
+
+    /**
+     * Guards that run before every endpoint, e.g. to check an API key.
+     * A guard rejects the request by returning a Response instead of calling `next`.
+     */
+    guards?: Middleware[];
+}
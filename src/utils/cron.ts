@@ -0,0 +1,303 @@
+/**
+ * A parsed cron expression, with the allowed values of each field.
+ */
+export interface CronExpression {
+    seconds: Set<number>;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+
+    /**
+     * Whether the day of month is `*`. When both day fields are restricted,
+     * a day matches if either of them matches, as in standard cron.
+     */
+    anyDayOfMonth: boolean;
+
+    /**
+     * Whether the day of week is `*`.
+     */
+    anyDayOfWeek: boolean;
+}
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+/**
+ * The fields of a six-field cron expression, in order.
+ */
+const CRON_FIELDS: CronField[] = [
+    { name: 'second', min: 0, max: 59 },
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    {
+        name: 'month',
+        min: 1,
+        max: 12,
+        names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+    },
+    // 7 is also Sunday
+    { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+/**
+ * How many steps nextCronDate takes before giving up on an expression that
+ * never matches (e.g. February 30th).
+ */
+const MAX_SEARCH_STEPS = 100_000;
+
+/**
+ * Parses a single value of a cron field, a number or a name like "MON".
+ * @param value The value.
+ * @param field The field the value is for.
+ * @returns The number.
+ * @throws {Error} If the value is not valid for the field.
+ */
+function parseCronValue(value: string, field: CronField): number {
+    const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+    const number =
+        nameIndex >= 0
+            ? nameIndex + (field.name === 'month' ? 1 : 0)
+            : /^\d+$/.test(value)
+            ? Number(value)
+            : NaN;
+    if (Number.isNaN(number) || number < field.min || number > field.max) {
+        throw new Error(`invalid ${field.name} '${value}'`);
+    }
+    return number;
+}
+
+/**
+ * Parses a cron field: `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and lists of them (`1,15,30`).
+ * @param text The field text.
+ * @param field The field.
+ * @returns The allowed values.
+ * @throws {Error} If the field is invalid.
+ */
+function parseCronField(text: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText, ...rest] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+            throw new Error(`invalid ${field.name} '${part}'`);
+        }
+
+        let start = field.min;
+        let end = field.max;
+        if (range !== '*' && range !== '?') {
+            const [from, to] = range.split('-');
+            start = parseCronValue(from, field);
+            // A single value with a step (`5/10`) runs to the end of the range
+            end =
+                to !== undefined
+                    ? parseCronValue(to, field)
+                    : stepText !== undefined
+                    ? field.max
+                    : start;
+            if (end < start) {
+                throw new Error(`invalid ${field.name} range '${range}'`);
+            }
+        }
+
+        for (let value = start; value <= end; value += step) {
+            // Sunday can be written as 0 or 7
+            values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Parses a cron expression with six fields (second, minute, hour, day of
+ * month, month, day of week). Five-field expressions run at second 0.
+ * @param expression The cron expression, e.g. "0 0 0 * * *".
+ * @returns The parsed expression.
+ * @throws {Error} If the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronExpression {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length === 5) {
+        parts.unshift('0');
+    }
+    if (parts.length !== 6) {
+        throw new Error(
+            `Invalid cron expression '${expression}': expected 6 fields, got ${parts.length}`
+        );
+    }
+
+    try {
+        const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] =
+            parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]));
+        return {
+            seconds,
+            minutes,
+            hours,
+            daysOfMonth,
+            months,
+            daysOfWeek,
+            anyDayOfMonth: parts[3] === '*' || parts[3] === '?',
+            anyDayOfWeek: parts[5] === '*' || parts[5] === '?',
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid cron expression '${expression}': ${message}`);
+    }
+}
+
+/**
+ * The wall-clock fields of a date in a time zone.
+ */
+interface ZonedParts {
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Formatters by time zone, as creating them is slow */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Creates (or reuses) a formatter for the wall-clock fields of a time zone.
+ * @param timeZone The IANA time zone, e.g. "Asia/Kolkata".
+ * @returns The formatter.
+ * @throws {RangeError} If the time zone is unknown.
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Returns the wall-clock fields of a date in a time zone, or in the local
+ * time zone if none is given.
+ * @param date The date.
+ * @param timeZone The IANA time zone.
+ * @returns The wall-clock fields.
+ */
+function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+    if (!timeZone) {
+        return {
+            month: date.getMonth() + 1,
+            day: date.getDate(),
+            weekday: date.getDay(),
+            hour: date.getHours(),
+            minute: date.getMinutes(),
+            second: date.getSeconds(),
+        };
+    }
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+    };
+}
+
+/**
+ * Checks whether a time zone is known.
+ * @param timeZone The IANA time zone, e.g. "Asia/Kolkata".
+ * @returns True if the time zone can be used with nextCronDate.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether a day matches the day-of-month and day-of-week fields.
+ * @param expression The cron expression.
+ * @param parts The wall-clock fields of the day.
+ * @returns True if the day matches.
+ */
+function matchesDay(expression: CronExpression, parts: ZonedParts): boolean {
+    const dayOfMonth = expression.daysOfMonth.has(parts.day);
+    const dayOfWeek = expression.daysOfWeek.has(parts.weekday);
+    if (!expression.anyDayOfMonth && !expression.anyDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Finds the next time a cron expression matches, after a given date.
+ * The expression is matched against the wall clock of the time zone, so
+ * daylight saving time changes are taken into account.
+ * @param expression The parsed cron expression.
+ * @param after The date to search from (exclusive).
+ * @param timeZone The IANA time zone, defaults to the local time zone.
+ * @returns The next matching date, or undefined if the expression never matches.
+ */
+export function nextCronDate(
+    expression: CronExpression,
+    after: Date,
+    timeZone?: string
+): Date | undefined {
+    // Start at the next whole second
+    let time = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+        const parts = getZonedParts(new Date(time), timeZone);
+        const secondsLeftInMinute = 60 - parts.second;
+        const secondsLeftInHour = (59 - parts.minute) * 60 + secondsLeftInMinute;
+
+        if (!expression.months.has(parts.month) || !matchesDay(expression, parts)) {
+            // Skip to the next day
+            time += ((23 - parts.hour) * 3600 + secondsLeftInHour) * 1000;
+            // A day that loses an hour to daylight saving time overshoots midnight
+            const next = getZonedParts(new Date(time), timeZone);
+            const midnight = time - next.hour * 3600 * 1000;
+            if (
+                next.day !== parts.day &&
+                next.hour > 0 &&
+                getZonedParts(new Date(midnight), timeZone).day === next.day
+            ) {
+                time = midnight;
+            }
+        } else if (!expression.hours.has(parts.hour)) {
+            time += secondsLeftInHour * 1000;
+        } else if (!expression.minutes.has(parts.minute)) {
+            time += secondsLeftInMinute * 1000;
+        } else if (!expression.seconds.has(parts.second)) {
+            time += 1000;
+        } else {
+            return new Date(time);
+        }
+    }
+    return undefined;
+}
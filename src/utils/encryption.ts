@@ -0,0 +1,95 @@
+/**
+ * The HKDF info the encryption keys are derived with, so a secret that is
+ * also used for signing yields an unrelated encryption key.
+ */
+const KEY_INFO = new TextEncoder().encode('breezeapi value encryption');
+
+/**
+ * The length of the AES-GCM initialization vector, in bytes.
+ */
+const IV_LENGTH = 12;
+
+/** Derived keys by secret, as deriving them is slow */
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Derives (or reuses) the AES-GCM key of a secret.
+ * @param secret The secret.
+ * @returns The AES-256-GCM key.
+ */
+function getKey(secret: string): Promise<CryptoKey> {
+    let key = keys.get(secret);
+    if (!key) {
+        key = crypto.subtle
+            .importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+            .then((baseKey) =>
+                crypto.subtle.deriveKey(
+                    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: KEY_INFO },
+                    baseKey,
+                    { name: 'AES-GCM', length: 256 },
+                    false,
+                    ['encrypt', 'decrypt']
+                )
+            );
+        keys.set(secret, key);
+    }
+    return key;
+}
+
+/**
+ * Encrypts a value with AES-GCM, using a key derived from a secret.
+ * @param value The value to encrypt.
+ * @param secret The secret to encrypt with.
+ * @param context Data the value is bound to, e.g. the cookie name. Decrypting
+ * with another context fails.
+ * @returns The base64url encoded initialization vector and ciphertext.
+ */
+export async function encryptValue(
+    value: string,
+    secret: string,
+    context: string = ''
+): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+        await getKey(secret),
+        new TextEncoder().encode(value)
+    );
+    return Buffer.concat([iv, new Uint8Array(ciphertext)]).toString('base64url');
+}
+
+/**
+ * Decrypts a value encrypted with encryptValue. The secrets are tried in
+ * order, so a value encrypted with a previous secret stays readable while
+ * secrets are rotated.
+ * @param encrypted The encrypted value.
+ * @param secrets The secrets the value may be encrypted with.
+ * @param context The data the value was bound to when it was encrypted.
+ * @returns The value, or undefined if it can't be decrypted with any secret
+ * (e.g. because it was tampered with).
+ */
+export async function decryptValue(
+    encrypted: string,
+    secrets: string[],
+    context: string = ''
+): Promise<string | undefined> {
+    const bytes = Buffer.from(encrypted, 'base64url');
+    if (bytes.length <= IV_LENGTH) {
+        return undefined;
+    }
+    const iv = bytes.subarray(0, IV_LENGTH);
+    const ciphertext = bytes.subarray(IV_LENGTH);
+    for (const secret of secrets) {
+        try {
+            const plaintext = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+                await getKey(secret),
+                ciphertext
+            );
+            return new TextDecoder().decode(plaintext);
+        } catch {
+            // Encrypted with another secret, or tampered with
+        }
+    }
+    return undefined;
+}
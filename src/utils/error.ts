@@ -1,4 +1,136 @@
+import { STATUS_CODES } from 'http';
 import { normalizePath } from '@utils';
+import { HttpError } from '@core/errors.js';
+
+import type {
+    ErrorDetails,
+    ErrorHook,
+    ServerOptions,
+    apiRequest,
+    apiResponse,
+} from '@Types';
+
+/**
+ * Runs error hooks in order until one returns a Response.
+ * A hook that throws replaces the error for the hooks after it.
+ * @param error - The thrown error.
+ * @param req - The request being handled.
+ * @param res - The response of the request.
+ * @param hooks - The error hooks, in the order they should run.
+ * @returns The Response returned by a hook, if any, and the final error.
+ */
+export async function runErrorHooks(
+    error: unknown,
+    req: apiRequest,
+    res: apiResponse,
+    hooks: ErrorHook[]
+): Promise<{ error: unknown; response?: Response }> {
+    for (const hook of hooks) {
+        try {
+            const response = await hook(error, req, res);
+            if (response instanceof Response) {
+                return { error, response };
+            }
+        } catch (rethrown) {
+            error = rethrown;
+        }
+    }
+    return { error };
+}
+
+/**
+ * Builds the default JSON body for an error.
+ * Validation failures become `{ errors }` with their issues, other errors
+ * become `{ error }` with the detail or title, plus their code and details.
+ * @param error - The error details.
+ * @returns The JSON body.
+ */
+function defaultErrorBody(error: ErrorDetails): unknown {
+    if (error.code === 'VALIDATION_FAILED') {
+        return { errors: error.issues ?? [] };
+    }
+    return {
+        error: error.detail ?? error.title,
+        code: error.code,
+        details: error.details,
+    };
+}
+
+/**
+ * Builds an RFC 7807 problem details body for an error.
+ * @param error - The error details.
+ * @param req - The incoming HTTP request object.
+ * @returns The problem details body.
+ */
+function problemBody(error: ErrorDetails, req: Request): Record<string, unknown> {
+    return {
+        type: error.type ?? 'about:blank',
+        title: error.title,
+        status: error.status,
+        detail: error.detail,
+        instance: new URL(req.url).pathname,
+        code: error.code,
+        details: error.details,
+        errors: error.issues,
+    };
+}
+
+/**
+ * Creates an error response in the configured format.
+ *
+ * - `'json'` (default): a JSON body with `{ error }`, or `{ errors }` for validation failures.
+ * - `'problem'`: an RFC 7807 `application/problem+json` body.
+ * - A function: its result is sent as JSON, unless it returns a Response.
+ *
+ * @param error - The error details.
+ * @param req - The incoming HTTP request object.
+ * @param format - The configured error format.
+ * @returns A Response object with the error's status and headers.
+ */
+export function formatErrorResponse(
+    error: ErrorDetails,
+    req: Request,
+    format: ServerOptions['errorFormat'] = 'json'
+): Response {
+    const headers = new Headers(error.headers);
+    let body: unknown;
+
+    if (typeof format === 'function') {
+        body = format(error, req);
+        if (body instanceof Response) {
+            return body;
+        }
+        headers.set('Content-Type', 'application/json');
+    } else if (format === 'problem') {
+        body = problemBody(error, req);
+        headers.set('Content-Type', 'application/problem+json');
+    } else {
+        body = defaultErrorBody(error);
+        headers.set('Content-Type', 'application/json');
+    }
+
+    return new Response(JSON.stringify(body), {
+        status: error.status,
+        headers,
+    });
+}
+
+/**
+ * Builds the error details for an HTTP status code.
+ * @param status - The HTTP status code.
+ * @param details - Additional details, like the detail message or headers.
+ * @returns The error details, titled with the standard reason phrase.
+ */
+export function httpErrorDetails(
+    status: number,
+    details: Partial<ErrorDetails> = {}
+): ErrorDetails {
+    return {
+        status,
+        title: STATUS_CODES[status] || 'Error',
+        ...details,
+    };
+}
 
 /**
  * Generates an HTTP error response based on the request's "Accept" header.
@@ -11,24 +143,53 @@ import { normalizePath } from '@utils';
  *
  * Otherwise, it returns a plain text response indicating an internal server error.
  *
+ * With the `'problem'` or a custom error format, the error is formatted like
+ * any other error response instead (see formatErrorResponse).
+ *
+ * A thrown HttpError is always formatted as an error response with its own
+ * status, code, details and headers. Only server errors (5xx) are logged.
+ *
  * @param error - The error object or message to include in the response.
  * @param req - The incoming HTTP request object.
  * @param debug - A boolean indicating whether debugging information should be included.
+ * @param format - The configured error format.
  * @returns A Response object with the appropriate error details and status code.
  */
 export function errorResponse(
     error: any,
     req: Request,
-    debug: boolean
+    debug: boolean,
+    format: ServerOptions['errorFormat'] = 'json'
 ): Response {
     // Extract request details
     const method = req.method;
     const url = req.url;
     const logPrefix = `[${method} ${url}]`;
 
+    // Map thrown HTTP errors to their own response
+    if (error instanceof HttpError) {
+        if (error.status >= 500) {
+            console.error(`${logPrefix} Error:`, error);
+        }
+        return formatErrorResponse(error.toErrorDetails(), req, format);
+    }
+
     // Log detailed error context
     console.error(`${logPrefix} Error:`, error);
 
+    // Problem details and custom formats take over from the built-in responses
+    if (format !== 'json') {
+        return formatErrorResponse(
+            httpErrorDetails(500, {
+                detail: debug && error instanceof Error ? error.message : undefined,
+                code: 'INTERNAL_ERROR',
+                cause: error,
+            }),
+            req,
+            format
+        );
+    }
+
     const acceptHeader = req.headers.get('accept') || '';
     if (acceptHeader.includes('text/html') && debug) {
         const body = `<!doctype html><html lang="en"><meta charset="UTF-8"><title>Error Occurred - eSportsAppAPI</title><style>body{margin:0;padding:0;background-color:#f4f4f4;font-family:Nunito,sans-serif;color:#333}.whoops-container{width:80%;margin:5% auto;background:#fff;border-radius:8px;box-shadow:0 4px 12px rgba(0,0,0,.15);overflow:hidden}.whoops-header{background-color:#e74c3c;color:#fff;padding:20px;display:flex;align-items:center;justify-content:space-between}.whoops-header .title-container{display:flex;align-items:center}.whoops-header .title{font-size:1.5em;margin-left:10px}.whoops-header .debug-mode{font-weight:600;display:flex;align-items:center;padding:10px;background-color:#fff;color:#e74c3c;box-shadow:0 4px 12px rgba(0,0,0,.15);border-radius:8px}.whoops-header .debug-mode .fa-check-circle{color:#28a745;margin-right:5px;font-size:1.2em}.whoops-content{padding:2em}.tag{font-weight:600;color:#4a5568;background-color:#edf2f7;padding:8px 15px;border-radius:6px;display:inline-block;font-size:14px}.error-message{font-size:1.25em;line-height:1.6;margin-bottom:1.5em;color:#2d3748}h2{color:#e3342f;font-size:1.5em;margin-bottom:.8em;border-bottom:1px solid #edf2f7;padding-bottom:.5em}pre{background:#f9fafc;border-left:4px solid #e3342f;padding:1.5em;border-radius:4px;font-family:"Source Code Pro",Menlo,Monaco,Consolas,"Courier New",monospace;font-size:1em;line-height:1.6;overflow-x:auto;color:#4a5568}.footer{text-align:center;padding-top:25px;font-size:.9em;color:#718096;border-top:1px solid #edf2f7}.error-icon{font-size:2em}.request-info{display:flex;justify-content:space-between;align-items:center}</style><link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/5.15.4/css/all.min.css"rel="stylesheet"><div class="whoops-container"><div class="whoops-header"><div class="title-container"><i class="fas error-icon fa-exclamation-triangle"></i><div class="title">Whoops! Something went wrong</div></div><div class="debug-mode"><i class="fas fa-check-circle"></i> Debug Mode Enabled</div></div><div class="whoops-content"><div class="request-info"><div><strong>Request:</strong> ${method} ${url}</div><div class="tag">${
@@ -46,9 +207,6 @@ export function errorResponse(
             headers: { 'Content-Type': 'text/html' },
         });
     } else if (debug) {
-        // Log detailed error context
-        console.error(`${logPrefix} Error:`, error);
-
         // Create a JSON response
         const body = JSON.stringify({
             request: `${method} ${url}`,
@@ -63,9 +221,6 @@ export function errorResponse(
             headers: { 'Content-Type': 'application/json' },
         });
     } else {
-        // Log detailed error context
-        console.error(`${logPrefix} Error:`, error);
-
         // Return a plain text response
         return new Response('Internal Server Error', { status: 500 });
     }
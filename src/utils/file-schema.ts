@@ -0,0 +1,104 @@
+import { z, type ZodTypeDef } from 'zod';
+
+export interface FileFieldOptions {
+    /**
+     * The maximum size of a file in bytes.
+     */
+    maxSize?: number;
+
+    /**
+     * The allowed MIME types. Wildcards like `image/*` match any subtype.
+     */
+    types?: string[];
+}
+
+export interface FilesFieldOptions extends FileFieldOptions {
+    /**
+     * The minimum number of files (default 0).
+     */
+    minCount?: number;
+
+    /**
+     * The maximum number of files.
+     */
+    maxCount?: number;
+}
+
+/**
+ * Definitions of the schemas created by fileField, so the OpenAPI generator
+ * can document them as binary strings.
+ */
+const fileSchemaDefs = new WeakSet<ZodTypeDef>();
+
+/**
+ * Checks whether a MIME type is allowed by a list of types.
+ * @param type The MIME type of the file.
+ * @param allowed The allowed MIME types, possibly with wildcards.
+ * @returns True if the type is allowed.
+ */
+function matchesType(type: string, allowed: string[]): boolean {
+    const mimeType = type.split(';')[0].trim().toLowerCase();
+    return allowed.some((pattern) => {
+        const lowerPattern = pattern.toLowerCase();
+        if (lowerPattern.endsWith('/*')) {
+            return mimeType.startsWith(lowerPattern.slice(0, -1));
+        }
+        return mimeType === lowerPattern;
+    });
+}
+
+/**
+ * Creates a Zod schema for a single uploaded file of a multipart/form-data
+ * body. The validated value is the `File` object.
+ * @param options Size and MIME type limits.
+ * @returns A Zod schema for a File.
+ */
+export function fileField(options: FileFieldOptions = {}): z.ZodType<File> {
+    const { maxSize, types } = options;
+
+    const schema = z
+        .instanceof(File, { message: 'Expected a file' })
+        .refine((file) => maxSize === undefined || file.size <= maxSize, {
+            message: `File must be at most ${maxSize} bytes`,
+        })
+        .refine((file) => !types || matchesType(file.type, types), {
+            message: `File type must be one of: ${types?.join(', ')}`,
+        });
+
+    fileSchemaDefs.add(schema._def);
+    return schema;
+}
+
+/**
+ * Creates a Zod schema for a field with any number of uploaded files.
+ * A single file is accepted as a list of one, and a missing field as an
+ * empty list. The validated value is an array of `File` objects.
+ * @param options Size, MIME type and count limits.
+ * @returns A Zod schema for a list of Files.
+ */
+export function filesField(options: FilesFieldOptions = {}): z.ZodType<File[]> {
+    const { minCount, maxCount, ...fileOptions } = options;
+
+    let list = z.array(fileField(fileOptions));
+    if (minCount !== undefined) {
+        list = list.min(minCount, { message: `Expected at least ${minCount} files` });
+    }
+    if (maxCount !== undefined) {
+        list = list.max(maxCount, { message: `Expected at most ${maxCount} files` });
+    }
+
+    return z.preprocess(
+        (value) =>
+            value === undefined ? [] : Array.isArray(value) ? value : [value],
+        list
+    ) as z.ZodType<File[]>;
+}
+
+/**
+ * Checks whether a Zod schema definition was created by fileField.
+ * @param def The Zod schema definition.
+ * @returns True if the definition describes an uploaded file.
+ */
+export function isFileSchema(def: ZodTypeDef): boolean {
+    return fileSchemaDefs.has(def);
+}
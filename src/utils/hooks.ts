@@ -0,0 +1,149 @@
+import type {
+    LifecycleHookMap,
+    LifecycleHookName,
+    LifecycleHooks,
+    OnResponseHook,
+    OnSendHook,
+    RequestHook,
+    ResponseTiming,
+    apiRequest,
+    apiResponse,
+} from '@Types';
+
+/**
+ * Collects the hooks of a stage from several hook configs, in order.
+ * @param stage - The lifecycle stage, e.g. "onSend".
+ * @param configs - The hook configs, e.g. the global and the route hooks.
+ * @returns The hooks of the stage.
+ */
+export function collectHooks<K extends LifecycleHookName>(
+    stage: K,
+    ...configs: Array<LifecycleHooks | undefined>
+): LifecycleHookMap[K][] {
+    const hooks: LifecycleHookMap[K][] = [];
+    for (const config of configs) {
+        const entry = config?.[stage];
+        if (Array.isArray(entry)) {
+            hooks.push(...(entry as LifecycleHookMap[K][]));
+        } else if (typeof entry === 'function') {
+            hooks.push(entry as LifecycleHookMap[K]);
+        }
+    }
+    return hooks;
+}
+
+/**
+ * Runs request hooks in order until one returns a Response.
+ * @param hooks - The hooks to run.
+ * @param req - The request being handled.
+ * @param res - The response of the request.
+ * @returns The Response returned by a hook, if any.
+ */
+export async function runRequestHooks(
+    hooks: RequestHook[],
+    req: apiRequest,
+    res: apiResponse
+): Promise<Response | undefined> {
+    for (const hook of hooks) {
+        const response = await hook(req, res);
+        if (response instanceof Response) {
+            return response;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Runs onSend hooks in order, each receiving the Response returned by the
+ * hook before it.
+ * @param hooks - The hooks to run.
+ * @param req - The request being handled.
+ * @param res - The response of the request.
+ * @param payload - The Response built for the request.
+ * @returns The Response to send.
+ */
+export async function runOnSendHooks(
+    hooks: OnSendHook[],
+    req: apiRequest,
+    res: apiResponse,
+    payload: Response
+): Promise<Response> {
+    for (const hook of hooks) {
+        const response = await hook(req, res, payload);
+        if (response instanceof Response) {
+            payload = response;
+        }
+    }
+    return payload;
+}
+
+/**
+ * Calls a function once the body of a Response has been sent, or the client
+ * stopped reading it. A Response with a body is copied with a wrapped body
+ * stream, so the returned Response must be sent instead.
+ * @param response - The Response to send.
+ * @param callback - Called once, with whether the body was cut short.
+ * @returns The Response to send.
+ */
+export function afterBodySent(
+    response: Response,
+    callback: (aborted: boolean) => void
+): Response {
+    if (!response.body) {
+        // Nothing to stream; the response is done once the server has it
+        setTimeout(() => callback(false), 0);
+        return response;
+    }
+
+    let finished = false;
+    const finish = (aborted: boolean) => {
+        if (finished) return;
+        finished = true;
+        callback(aborted);
+    };
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    controller.close();
+                    finish(false);
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                controller.error(error);
+                finish(true);
+            }
+        },
+        cancel(reason) {
+            finish(true);
+            return reader.cancel(reason);
+        },
+    });
+    return new Response(body, response);
+}
+
+/**
+ * Runs onResponse hooks in order. Errors are logged, so one failing hook
+ * doesn't keep the others from running.
+ * @param hooks - The hooks to run.
+ * @param req - The request that was handled.
+ * @param payload - The Response that was sent.
+ * @param timing - The timing of the request.
+ */
+export async function runOnResponseHooks(
+    hooks: OnResponseHook[],
+    req: apiRequest,
+    payload: Response,
+    timing: ResponseTiming
+): Promise<void> {
+    for (const hook of hooks) {
+        try {
+            await hook(req, payload, timing);
+        } catch (error) {
+            console.error('onResponse hook failed:', error);
+        }
+    }
+}
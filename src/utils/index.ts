@@ -6,7 +6,34 @@ export {
     HTTP_METHODS,
     compareRoutes,
     getRouteSpecificity,
+    getRouteMiddleware,
+    formatRouteTable,
 } from '@utils/routing.js';
+export {
+    importModule,
+    invalidateModule,
+    invalidateDirectory,
+    watchDirectory,
+    logRouteChanges,
+} from '@utils/reload.js';
+export { parseQuery, coerceToSchema } from '@utils/query.js';
+export {
+    parseCronExpression,
+    nextCronDate,
+    isValidTimeZone,
+} from '@utils/cron.js';
+export type { CronExpression } from '@utils/cron.js';
+export { fileField, filesField, isFileSchema } from '@utils/file-schema.js';
+export {
+    collectHooks,
+    runRequestHooks,
+    runOnSendHooks,
+    runOnResponseHooks,
+    afterBodySent,
+} from '@utils/hooks.js';
+export { signValue, unsignValue } from '@utils/signing.js';
+export { encryptValue, decryptValue } from '@utils/encryption.js';
+export type { FileFieldOptions, FilesFieldOptions } from '@utils/file-schema.js';
 
 /**
  * Resolves the given path to the specified directory.
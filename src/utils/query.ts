@@ -0,0 +1,259 @@
+import { z } from 'zod';
+
+/**
+ * How deep nested query keys (e.g. `a[b][c]`) are parsed.
+ * Deeper brackets are kept as part of the last key.
+ */
+const MAX_QUERY_DEPTH = 5;
+
+/**
+ * Keys that are never assigned, so the parsed query can be copied into plain
+ * objects without changing their prototype.
+ */
+const UNSAFE_KEYS = new Set(['__proto__']);
+
+/**
+ * Splits a query key into its path, e.g. `filter[status]` into
+ * `['filter', 'status']` and `tag[]` into `['tag', '']`.
+ * @param key The query key.
+ * @returns The path segments of the key.
+ */
+function parseQueryKey(key: string): string[] {
+    const start = key.indexOf('[');
+    if (start <= 0 || !key.endsWith(']')) {
+        return [key];
+    }
+
+    const path = [key.slice(0, start)];
+    const brackets = key.slice(start + 1, -1).split('][');
+    while (brackets.length > 0 && path.length < MAX_QUERY_DEPTH) {
+        path.push(brackets.shift()!);
+    }
+    if (brackets.length > 0) {
+        path[path.length - 1] += `[${brackets.join('][')}]`;
+    }
+    return path;
+}
+
+/**
+ * Checks whether a parsed value is a field value (a string or an uploaded
+ * file) rather than a nested array or object.
+ * @param value The parsed value.
+ * @returns True if the value is a field value.
+ */
+function isFieldValue(value: unknown): value is string | Blob {
+    return typeof value === 'string' || value instanceof Blob;
+}
+
+/**
+ * Sets a query value in the parsed query object at the path of its key.
+ * @param query The parsed query object.
+ * @param key The query key, e.g. `filter[status]`.
+ * @param value The value.
+ */
+function setQueryValue(query: Record<string, any>, key: string, value: string | File): void {
+    const path = parseQueryKey(key);
+    if (path.some((segment) => UNSAFE_KEYS.has(segment))) {
+        return;
+    }
+
+    let target: any = query;
+    for (let i = 0; i < path.length - 1; i++) {
+        const segment = path[i];
+        const next = target[segment];
+        if (next === undefined) {
+            target[segment] = path[i + 1] === '' ? [] : Object.create(null);
+        } else if (isFieldValue(next)) {
+            // Already used as a plain value, e.g. `?a=1&a[b]=2`
+            return;
+        }
+        target = target[segment];
+    }
+
+    const last = path[path.length - 1];
+    if (Array.isArray(target) && last === '') {
+        target.push(value);
+    } else if (target[last] === undefined) {
+        target[last] = value;
+    } else if (Array.isArray(target[last])) {
+        target[last].push(value);
+    } else if (isFieldValue(target[last])) {
+        target[last] = [target[last], value];
+    }
+}
+
+/**
+ * Parses query parameters, or form fields, into an object.
+ * - Repeated keys (`?tag=a&tag=b`) and `tag[]` keys become arrays.
+ * - Bracket keys (`?filter[status]=open`, `items[0][name]`) become nested objects.
+ * Values are kept as strings (and form files as `File`s); see coerceToSchema.
+ * The objects have no prototype, so keys like `valueOf` or `constructor` are
+ * parsed like any other.
+ * @param entries The query parameters of the request, or the form fields.
+ * @returns The parsed query object.
+ */
+export function parseQuery(entries: Iterable<[string, string | File]>): Record<string, unknown> {
+    const query: Record<string, any> = Object.create(null);
+    for (const [key, value] of entries) {
+        setQueryValue(query, key, value);
+    }
+    return query;
+}
+
+/**
+ * Unwraps Zod schemas that don't change the shape of the input, like
+ * optional, nullable, default and refinements.
+ * @param schema The Zod schema.
+ * @returns The innermost schema that describes the input.
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+    while (true) {
+        if (
+            schema instanceof z.ZodOptional ||
+            schema instanceof z.ZodNullable
+        ) {
+            schema = schema.unwrap();
+        } else if (schema instanceof z.ZodDefault) {
+            schema = schema.removeDefault();
+        } else if (schema instanceof z.ZodEffects) {
+            schema = schema.innerType();
+        } else if (schema instanceof z.ZodCatch) {
+            schema = schema.removeCatch();
+        } else if (schema instanceof z.ZodBranded) {
+            schema = schema.unwrap();
+        } else if (schema instanceof z.ZodPipeline) {
+            schema = schema._def.in;
+        } else if (schema instanceof z.ZodLazy) {
+            schema = schema.schema;
+        } else {
+            return schema;
+        }
+    }
+}
+
+/**
+ * Coerces a string to a number, leaving non-numeric strings untouched so the
+ * schema reports them.
+ * @param value The string value.
+ * @returns The number, or the original value.
+ */
+function coerceNumber(value: string): unknown {
+    const number = Number(value);
+    return value.trim() !== '' && !Number.isNaN(number) ? number : value;
+}
+
+/**
+ * Coerces a string to a boolean ("true"/"1" and "false"/"0"), leaving other
+ * strings untouched so the schema reports them.
+ * @param value The string value.
+ * @returns The boolean, or the original value.
+ */
+function coerceBoolean(value: string): unknown {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return value;
+}
+
+/**
+ * Coerces string values parsed from a query string or form to the types the
+ * schema expects: numbers, booleans, dates, arrays and nested objects.
+ * Values that can't be coerced, and uploaded files, are left as they are, so
+ * the schema reports them.
+ * @param schema The Zod schema the value will be validated against.
+ * @param value The parsed value (see parseQuery).
+ * @returns The coerced value.
+ */
+export function coerceToSchema(schema: z.ZodTypeAny, value: unknown): unknown {
+    const inner = unwrapSchema(schema);
+    const isList =
+        inner instanceof z.ZodArray ||
+        inner instanceof z.ZodTuple ||
+        inner instanceof z.ZodSet;
+
+    // A single file for a list of files
+    if (value instanceof Blob) {
+        return isList ? coerceToSchema(inner, [value]) : value;
+    }
+
+    if (typeof value === 'string') {
+        if (inner instanceof z.ZodNumber) return coerceNumber(value);
+        if (inner instanceof z.ZodBigInt) {
+            return /^-?\d+$/.test(value) ? BigInt(value) : value;
+        }
+        if (inner instanceof z.ZodBoolean) return coerceBoolean(value);
+        if (inner instanceof z.ZodDate) {
+            const date = new Date(value);
+            return Number.isNaN(date.getTime()) ? value : date;
+        }
+        if (inner instanceof z.ZodLiteral) {
+            if (typeof inner.value === 'number') return coerceNumber(value);
+            if (typeof inner.value === 'boolean') return coerceBoolean(value);
+        }
+        if (isList) {
+            return coerceToSchema(inner, [value]);
+        }
+        return value;
+    }
+
+    // Repeated keys for a single value are left for the schema to report
+    if (Array.isArray(value) && !isList) {
+        return value;
+    }
+
+    if (inner instanceof z.ZodArray || inner instanceof z.ZodSet) {
+        const element =
+            inner instanceof z.ZodArray ? inner.element : inner._def.valueType;
+        // Indexed keys (`?ids[0]=1&ids[1]=2`) are parsed as an object
+        const items = Array.isArray(value)
+            ? value
+            : isPlainObject(value)
+            ? Object.keys(value)
+                  .sort((a, b) => Number(a) - Number(b))
+                  .map((key) => value[key])
+            : undefined;
+        if (!items) return value;
+        const coerced = items.map((item) => coerceToSchema(element, item));
+        return inner instanceof z.ZodSet ? new Set(coerced) : coerced;
+    }
+
+    if (inner instanceof z.ZodTuple && Array.isArray(value)) {
+        return value.map((item, index) => {
+            const element = inner.items[index] ?? inner._def.rest;
+            return element ? coerceToSchema(element, item) : item;
+        });
+    }
+
+    if (inner instanceof z.ZodObject && isPlainObject(value)) {
+        const shape = inner.shape;
+        const coerced: Record<string, unknown> = {};
+        for (const key in value) {
+            coerced[key] = Object.hasOwn(shape, key)
+                ? coerceToSchema(shape[key], value[key])
+                : value[key];
+        }
+        return coerced;
+    }
+
+    if (inner instanceof z.ZodRecord && isPlainObject(value)) {
+        const coerced: Record<string, unknown> = {};
+        for (const key in value) {
+            coerced[key] = coerceToSchema(inner.valueSchema, value[key]);
+        }
+        return coerced;
+    }
+
+    return value;
+}
+
+/**
+ * Checks whether a value is a plain object (not an array, file or null).
+ * @param value The value to check.
+ * @returns True if the value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === null || prototype === Object.prototype;
+}
@@ -0,0 +1,97 @@
+import { watch, type FSWatcher } from 'fs';
+import { resolve, join, sep } from 'path';
+
+/**
+ * Version of each module that changed since it was first imported.
+ * A bumped version makes importModule load a fresh copy of the module.
+ */
+const moduleVersions = new Map<string, number>();
+
+/**
+ * Imports a module, bypassing the module cache if it has been invalidated.
+ * @param filePath The file path of the module.
+ * @returns A promise that resolves with the module namespace.
+ */
+export function importModule(filePath: string): Promise<any> {
+    const modulePath = resolve(filePath);
+    const version = moduleVersions.get(modulePath);
+    return import(version ? `${modulePath}?v=${version}` : modulePath);
+}
+
+/**
+ * Marks a module as changed, so the next importModule call re-imports it.
+ * @param filePath The file path of the module.
+ */
+export function invalidateModule(filePath: string): void {
+    const modulePath = resolve(filePath);
+    moduleVersions.set(modulePath, (moduleVersions.get(modulePath) ?? 0) + 1);
+}
+
+/**
+ * Evicts every module loaded from a directory from the module cache, so they
+ * are imported fresh. Re-importing a route that uses a changed helper (e.g.
+ * `users/_lib.ts`) then also loads the new helper. Modules outside the
+ * directory keep their loaded version.
+ * @param dir The directory.
+ */
+export function invalidateDirectory(dir: string): void {
+    const prefix = resolve(dir) + sep;
+    for (const modulePath of Object.keys(require.cache)) {
+        if (modulePath.startsWith(prefix)) {
+            delete require.cache[modulePath];
+        }
+    }
+}
+
+/**
+ * Recursively watches a directory and reports changed files in batches.
+ * Changes within the debounce window are collected into a single call.
+ * @param dir The directory to watch.
+ * @param onChange Called with the absolute paths of the changed files.
+ * @param debounceMs How long to wait for more changes before reporting.
+ * @returns The underlying watcher, close it to stop watching.
+ */
+export function watchDirectory(
+    dir: string,
+    onChange: (files: string[]) => void,
+    debounceMs: number = 100
+): FSWatcher {
+    const changed = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return watch(dir, { recursive: true }, (_event, filename) => {
+        if (!filename) return;
+        changed.add(join(resolve(dir), filename.toString()));
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            const files = [...changed];
+            changed.clear();
+            onChange(files);
+        }, debounceMs);
+    });
+}
+
+/**
+ * Logs the routes added and removed by a reload.
+ * @param kind The kind of routes (e.g. "API", "page", "WebSocket").
+ * @param before The route paths before the reload.
+ * @param after The route paths after the reload.
+ */
+export function logRouteChanges(
+    kind: string,
+    before: Iterable<string>,
+    after: Iterable<string>
+): void {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    for (const routePath of afterSet) {
+        if (!beforeSet.has(routePath)) {
+            console.info(`➕ ${kind} route added: ${routePath}`);
+        }
+    }
+    for (const routePath of beforeSet) {
+        if (!afterSet.has(routePath)) {
+            console.info(`➖ ${kind} route removed: ${routePath}`);
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import type { PageDefinition, RouteDefinition } from '@Types';
+import type { Middleware, PageDefinition, RouteDefinition } from '@Types';
 
 /**
  * Constants for route handling.
@@ -11,6 +11,17 @@ export const ROUTE_CONSTANTS = {
     DYNAMIC_FOLDER_END: ']',
     GROUPING_FOLDER_START: '(',
     GROUPING_FOLDER_END: ')',
+    CATCH_ALL_PREFIX: '...',
+    OPTIONAL_CATCH_ALL_START: '[[',
+    OPTIONAL_CATCH_ALL_END: ']]',
+    CATCH_ALL_SUFFIX: '+',
+    OPTIONAL_CATCH_ALL_SUFFIX: '*',
+    FOLDER_CONFIG_FILE: 'config.ts',
+    FOLDER_MIDDLEWARE_FILE: 'middleware.ts',
+    NOT_FOUND_FILE: 'not-found.ts',
+    METHOD_NOT_ALLOWED_FILE: 'method-not-allowed.ts',
+    PAGE_NOT_FOUND_FILES: ['404.tsx', '404.html'],
+    CRON_FILE: 'cron.ts',
 };
 
 /**
@@ -59,3 +70,75 @@ export const compareRoutes = (
     if (aSpecificity < bSpecificity) return 1;
     return a.path.localeCompare(b.path);
 };
+
+/**
+ * Returns the middleware that runs for a method of a route: the middleware of
+ * its folders' `middleware.ts` files, then the guards and middleware of the method's
+ * `config.<method>`, the route's `config.middleware` or its guards and middleware,
+ * whichever is set first.
+ * @param route The route definition.
+ * @param method The HTTP method.
+ * @returns The middleware, in the order it runs.
+ */
+export const getRouteMiddleware = (
+    route: RouteDefinition,
+    method: string
+): Middleware[] => {
+    const methodKey = method.toLowerCase();
+    let methodMiddleware: Middleware[] = [];
+
+    if (route.methodMiddleware?.[methodKey]) {
+        methodMiddleware = route.methodMiddleware[methodKey];
+    } else if (route.config && Array.isArray(route.config.middleware)) {
+        methodMiddleware = route.config.middleware;
+    } else if (route.middleware && Array.isArray(route.middleware)) {
+        methodMiddleware = route.middleware;
+    }
+
+    // Folder middleware.ts files run before the route's own middleware
+    if (route.inheritedMiddleware && route.inheritedMiddleware.length > 0) {
+        methodMiddleware = [...route.inheritedMiddleware, ...methodMiddleware];
+    }
+    return methodMiddleware;
+};
+
+/**
+ * Formats a table of routes with one row per method: the method, path,
+ * number of middleware, validated parts of the request and the source file.
+ * Methods derived by the framework (e.g. HEAD from GET) are left out.
+ * @param routes The route definitions.
+ * @returns The table, one line per row.
+ */
+export const formatRouteTable = (routes: RouteDefinition[]): string => {
+    const rows: string[][] = [['METHOD', 'PATH', 'MIDDLEWARE', 'SCHEMA', 'SOURCE']];
+    const schemaParts = ['params', 'query', 'body', 'headers', 'cookies', 'response'];
+
+    for (const route of [...routes].sort((a, b) => a.path.localeCompare(b.path))) {
+        for (const method of Object.keys(route.handlers)) {
+            if (route.implicitMethods?.includes(method)) continue;
+            const methodSchema = route.schema?.[method.toLowerCase()];
+            const parts = schemaParts.filter(
+                (part) => methodSchema?.[part as keyof typeof methodSchema]
+            );
+            rows.push([
+                method,
+                route.path,
+                String(getRouteMiddleware(route, method).length),
+                parts.length > 0 ? parts.join(', ') : '-',
+                route.file ?? 'code',
+            ]);
+        }
+    }
+
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => row[column].length))
+    );
+    return rows
+        .map((row) =>
+            row
+                .map((cell, column) => cell.padEnd(widths[column]))
+                .join('  ')
+                .trimEnd()
+        )
+        .join('\n');
+};
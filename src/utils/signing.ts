@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Computes the HMAC-SHA256 signature of a value and the name it is bound to.
+ * @param value The value.
+ * @param secret The secret to sign with.
+ * @param name The name the value is bound to.
+ * @returns The base64url signature.
+ */
+function createSignature(value: string, secret: string, name: string): string {
+    return createHmac('sha256', secret).update(`${name}=${value}`).digest('base64url');
+}
+
+/**
+ * Signs a value with HMAC-SHA256.
+ * @param value The value to sign.
+ * @param secret The secret to sign with.
+ * @param name The name the value is bound to, e.g. the cookie name. Verifying
+ * it under another name fails, so it can't be moved to another cookie.
+ * @returns The value followed by a dot and its base64url signature.
+ */
+export function signValue(value: string, secret: string, name: string = ''): string {
+    return `${value}.${createSignature(value, secret, name)}`;
+}
+
+/**
+ * Verifies a value signed with signValue. The secrets are tried in order,
+ * so a value signed with a previous secret stays valid while secrets are rotated.
+ * @param signed The signed value.
+ * @param secrets The secrets the value may be signed with.
+ * @param name The name the value was bound to when it was signed.
+ * @returns The value, or undefined if the signature doesn't match any secret.
+ */
+export function unsignValue(
+    signed: string,
+    secrets: string[],
+    name: string = ''
+): string | undefined {
+    const dot = signed.lastIndexOf('.');
+    if (dot < 0) {
+        return undefined;
+    }
+    const value = signed.slice(0, dot);
+    const signature = Buffer.from(signed.slice(dot + 1));
+    for (const secret of secrets) {
+        const expected = Buffer.from(createSignature(value, secret, name));
+        if (expected.length === signature.length && timingSafeEqual(expected, signature)) {
+            return value;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { setCookie } from '@core/cookies.js';
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+describe('cookies', () => {
+    test('set by middleware, helpers and the handler are all sent', async () => {
+        const api = new BreezeAPI({});
+        api.use(async (req, res, next) => {
+            res.cookie('before', '1');
+            const response = await next();
+            // Set after the handler already built its response
+            res.cookie('after', '2');
+            return response;
+        });
+        api.get('/prefs', (req, res) => {
+            setCookie(req, 'helper', '3');
+            const response = res.json({ ok: true });
+            res.cookie('late', '4');
+            return response;
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/prefs');
+        expect(await response.json()).toEqual({ ok: true });
+        expect(response.headers.getSetCookie()).toEqual([
+            'before=1; Path=/',
+            'helper=3; Path=/',
+            'late=4; Path=/',
+            'after=2; Path=/',
+        ]);
+    });
+
+    test('are added to a Response the handler built itself', async () => {
+        const api = new BreezeAPI({});
+        api.use(async (req, res, next) => {
+            res.cookie('sid', 'abc', { httpOnly: true });
+            return next();
+        });
+        api.get('/download', () =>
+            new Response('file', { headers: { 'Set-Cookie': 'download=started' } })
+        );
+        server = await serveApi(api);
+
+        const response = await server.request('/download');
+        expect(response.headers.getSetCookie()).toEqual([
+            'download=started',
+            'sid=abc; Path=/; HttpOnly',
+        ]);
+    });
+
+    test('set again are sent once, with the last value', async () => {
+        const api = new BreezeAPI({});
+        api.use(async (req, res, next) => {
+            const response = await next();
+            res.cookie('theme', 'light');
+            return response;
+        });
+        api.get('/theme', (req, res) => res.cookie('theme', 'dark').json({}));
+        server = await serveApi(api);
+
+        const response = await server.request('/theme');
+        expect(response.headers.getSetCookie()).toEqual(['theme=light; Path=/']);
+    });
+});
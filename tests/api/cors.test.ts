@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+import type { CorsOptions } from '@Types';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+describe('origin policies', () => {
+    /**
+     * Serves an app with a CORS origin policy.
+     * @param origin The origin policy.
+     * @returns The served app.
+     */
+    async function serveWithOrigin(origin: CorsOptions['origin']) {
+        const api = new BreezeAPI({ cors: { origin, credentials: true } });
+        api.get('/items', (req, res) => res.json([]));
+        return serveApi(api);
+    }
+
+    /**
+     * Requests the items from an origin.
+     * @param origin The Origin header.
+     * @returns The response.
+     */
+    const fromOrigin = (origin: string) => server!.request('/items', { headers: { origin } });
+
+    test('echo the single matching origin of a list', async () => {
+        server = await serveWithOrigin(['https://a.example', /^https:\/\/.+\.b\.example$/]);
+
+        const listed = await fromOrigin('https://a.example');
+        expect(listed.headers.get('access-control-allow-origin')).toBe('https://a.example');
+        expect(listed.headers.get('access-control-allow-credentials')).toBe('true');
+        expect(listed.headers.get('vary')).toContain('Origin');
+
+        const pattern = await fromOrigin('https://app.b.example');
+        expect(pattern.headers.get('access-control-allow-origin')).toBe('https://app.b.example');
+    });
+
+    test('send no CORS headers to other origins', async () => {
+        server = await serveWithOrigin(['https://a.example']);
+        const response = await fromOrigin('https://evil.example');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('access-control-allow-origin')).toBeNull();
+        expect(response.headers.get('access-control-allow-credentials')).toBeNull();
+        expect(response.headers.get('vary')).toContain('Origin');
+    });
+
+    test('can be decided by an async function', async () => {
+        server = await serveWithOrigin(async (origin) => origin.endsWith('.trusted.example'));
+        const allowed = await fromOrigin('https://x.trusted.example');
+        expect(allowed.headers.get('access-control-allow-origin')).toBe('https://x.trusted.example');
+        const denied = await fromOrigin('https://x.other.example');
+        expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    test('never allow credentials for any origin', async () => {
+        server = await serveWithOrigin('*');
+        const response = await fromOrigin('https://a.example');
+        expect(response.headers.get('access-control-allow-origin')).toBe('*');
+        expect(response.headers.get('access-control-allow-credentials')).toBeNull();
+    });
+
+    test('reject preflights from other origins with a 403', async () => {
+        server = await serveWithOrigin(['https://a.example']);
+        const preflight = (origin: string) =>
+            server!.request('/items', {
+                method: 'OPTIONS',
+                headers: { origin, 'access-control-request-method': 'GET' },
+            });
+
+        const allowed = await preflight('https://a.example');
+        expect(allowed.status).toBe(204);
+        expect(allowed.headers.get('access-control-allow-origin')).toBe('https://a.example');
+
+        const rejected = await preflight('https://evil.example');
+        expect(rejected.status).toBe(403);
+        expect((await rejected.json()).code).toBe('CORS_REJECTED');
+        expect(rejected.headers.get('access-control-allow-origin')).toBeNull();
+    });
+});
+
+describe('method CORS policies', () => {
+    test('are merged over the route policy', async () => {
+        const api = new BreezeAPI({});
+        api.route(
+            '/orders',
+            {
+                GET: (req, res) => res.json([]),
+                POST: (req, res) => res.json({}),
+            },
+            {
+                config: {
+                    cors: { origin: ['https://shop.example'] },
+                    post: { cors: { credentials: true } },
+                },
+            }
+        );
+        server = await serveApi(api);
+
+        const allowed = await server.request('/orders', {
+            method: 'POST',
+            headers: { origin: 'https://shop.example' },
+        });
+        expect(allowed.headers.get('access-control-allow-origin')).toBe('https://shop.example');
+        expect(allowed.headers.get('access-control-allow-credentials')).toBe('true');
+
+        // The route's origin allow-list still applies to POST
+        const other = await server.request('/orders', {
+            method: 'POST',
+            headers: { origin: 'https://evil.example' },
+        });
+        expect(other.headers.get('access-control-allow-origin')).toBeNull();
+        expect(other.headers.get('access-control-allow-credentials')).toBeNull();
+    });
+
+    test('can disable CORS for a method', async () => {
+        const api = new BreezeAPI({});
+        api.route(
+            '/hooks',
+            {
+                GET: (req, res) => res.json([]),
+                DELETE: (req, res) => res.json({}),
+            },
+            { config: { delete: { cors: false } } }
+        );
+        server = await serveApi(api);
+
+        const get = await server.request('/hooks', { headers: { origin: 'https://a.example' } });
+        expect(get.headers.get('access-control-allow-origin')).toBe('*');
+        const del = await server.request('/hooks', {
+            method: 'DELETE',
+            headers: { origin: 'https://a.example' },
+        });
+        expect(del.headers.get('access-control-allow-origin')).toBeNull();
+    });
+});
@@ -0,0 +1,145 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+declare global {
+    var cronTestRuns: string[] | undefined;
+}
+
+let dir: string;
+let server: TestServer | undefined;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'breeze-cron-'));
+    await mkdir(join(dir, 'slow'));
+    await writeFile(
+        join(dir, 'slow', 'cron.ts'),
+        [
+            "export const cronConfig = { cronTime: '0 0 0 1 1 *', runOnStart: true };",
+            'export default async function () {',
+            "    globalThis.cronTestRuns?.push('started');",
+            '    await Bun.sleep(150);',
+            "    globalThis.cronTestRuns?.push('finished');",
+            '}',
+            '',
+        ].join('\n')
+    );
+    await mkdir(join(dir, 'cleanup'));
+    await writeFile(
+        join(dir, 'cleanup', 'cron.ts'),
+        [
+            "export const cronConfig = { cronTime: '0 0 0 1 1 *' };",
+            "export default () => void globalThis.cronTestRuns?.push('cleanup');",
+            '',
+        ].join('\n')
+    );
+});
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+afterAll(async () => {
+    globalThis.cronTestRuns = undefined;
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('stop', () => {
+    test('waits for running cron jobs', async () => {
+        globalThis.cronTestRuns = [];
+        const server = await serveApi(new BreezeAPI({ cronDir: dir }));
+        for (let i = 0; i < 100 && globalThis.cronTestRuns.length === 0; i++) {
+            await Bun.sleep(10);
+        }
+        expect(globalThis.cronTestRuns).toEqual(['started']);
+
+        await server.stop();
+        expect(globalThis.cronTestRuns).toEqual(['started', 'finished']);
+    });
+});
+
+describe('cron admin endpoints', () => {
+    /**
+     * Serves the cron jobs with the admin endpoints behind an API key.
+     * @returns The served app.
+     */
+    const serveAdmin = () =>
+        serveApi(
+            new BreezeAPI({
+                cronDir: dir,
+                cronAdmin: {
+                    path: '/admin/cron',
+                    guards: [
+                        async (req, res, next) =>
+                            req.headers.get('api-key') === 'secret'
+                                ? next()
+                                : res.status(401).json({ error: 'Unauthorized' }),
+                    ],
+                },
+            })
+        );
+    const admin = { headers: { 'api-key': 'secret' } };
+    const post = { method: 'POST', ...admin };
+
+    test('are protected by the guards', async () => {
+        server = await serveAdmin();
+        expect((await server.request('/admin/cron')).status).toBe(401);
+        expect((await server.request('/admin/cron/cleanup/run', { method: 'POST' })).status).toBe(401);
+    });
+
+    test('list the jobs and show one', async () => {
+        server = await serveAdmin();
+        const list = await server.request('/admin/cron', admin);
+        expect(list.status).toBe(200);
+        const { jobs } = await list.json();
+        expect(jobs.map((job: { name: string }) => job.name).sort()).toEqual(['/cleanup', '/slow']);
+
+        const { job } = await (await server.request('/admin/cron/cleanup', admin)).json();
+        expect(job).toMatchObject({
+            name: '/cleanup',
+            schedule: '0 0 0 1 1 *',
+            enabled: true,
+            running: false,
+            lastRun: null,
+            lastError: null,
+        });
+        expect(job.nextRun).toEqual(expect.any(String));
+    });
+
+    test('run a job right away', async () => {
+        globalThis.cronTestRuns = [];
+        server = await serveAdmin();
+        const response = await server.request('/admin/cron/cleanup/run', post);
+        expect(response.status).toBe(202);
+        for (let i = 0; i < 100 && !globalThis.cronTestRuns.includes('cleanup'); i++) {
+            await Bun.sleep(10);
+        }
+        expect(globalThis.cronTestRuns).toContain('cleanup');
+    });
+
+    test('pause and resume a job', async () => {
+        server = await serveAdmin();
+        const paused = await (await server.request('/admin/cron/cleanup/pause', post)).json();
+        expect(paused.job).toMatchObject({ enabled: false, nextRun: null });
+
+        const resumed = await (await server.request('/admin/cron/cleanup/resume', post)).json();
+        expect(resumed.job.enabled).toBe(true);
+        expect(resumed.job.nextRun).toEqual(expect.any(String));
+    });
+
+    test('reject unknown jobs and unsupported methods', async () => {
+        server = await serveAdmin();
+        const missing = await server.request('/admin/cron/missing', admin);
+        expect(missing.status).toBe(404);
+        expect((await missing.json()).code).toBe('CRON_JOB_NOT_FOUND');
+
+        const put = await server.request('/admin/cron/cleanup/run', { ...post, method: 'PUT' });
+        expect(put.status).toBe(405);
+        expect(put.headers.get('allow')).toBe('GET, HEAD, POST');
+    });
+});
@@ -0,0 +1,125 @@
+import {
+    afterAll,
+    afterEach,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    spyOn,
+    test,
+    type Mock,
+} from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { Conflict } from '@core/errors.js';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+declare global {
+    var errorHookCalls: string[];
+}
+
+let dir: string;
+let server: TestServer | undefined;
+let consoleError: Mock<typeof console.error>;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'breeze-error-hooks-'));
+    const files: Record<string, string> = {
+        'middleware.ts': "export const onError = () => void globalThis.errorHookCalls.push('outer');\n",
+        'orders/middleware.ts': [
+            'export const onError = (error) => {',
+            "    globalThis.errorHookCalls.push('inner');",
+            "    if (error.message === 'duplicate') throw new Error('conflict');",
+            '};',
+            '',
+        ].join('\n'),
+        'orders/route.ts': [
+            'export const onError = (error, req, res) => {',
+            "    globalThis.errorHookCalls.push('route');",
+            "    if (error.message === 'handled') return res.status(503).json({ retry: true });",
+            '};',
+            "export const GET = (req) => { throw new Error(req.query.get('error') ?? 'failed'); };",
+            '',
+        ].join('\n'),
+    };
+    for (const [file, content] of Object.entries(files)) {
+        await mkdir(dirname(join(dir, file)), { recursive: true });
+        await writeFile(join(dir, file), content);
+    }
+});
+
+beforeEach(() => {
+    globalThis.errorHookCalls = [];
+    consoleError = spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    consoleError.mockRestore();
+    await server?.stop();
+    server = undefined;
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('onError hooks', () => {
+    test('run from the route, to its folders, to the global hook', async () => {
+        const api = new BreezeAPI({
+            apiDir: dir,
+            onError: () => void globalThis.errorHookCalls.push('global'),
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/orders');
+        expect(response.status).toBe(500);
+        expect(globalThis.errorHookCalls).toEqual(['route', 'inner', 'outer', 'global']);
+    });
+
+    test('send a returned Response and skip the later hooks', async () => {
+        const api = new BreezeAPI({
+            apiDir: dir,
+            onError: () => void globalThis.errorHookCalls.push('global'),
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/orders?error=handled');
+        expect(response.status).toBe(503);
+        expect(await response.json()).toEqual({ retry: true });
+        expect(globalThis.errorHookCalls).toEqual(['route']);
+    });
+
+    test('pass a thrown error on to the later hooks', async () => {
+        let seen: unknown;
+        const api = new BreezeAPI({
+            apiDir: dir,
+            onError: (error) => {
+                seen = error;
+                throw new Conflict('Order already exists');
+            },
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/orders?error=duplicate');
+        expect((seen as Error).message).toBe('conflict');
+        expect(response.status).toBe(409);
+        expect((await response.json()).error).toBe('Order already exists');
+    });
+
+    test('see errors of programmatic routes', async () => {
+        const api = new BreezeAPI({
+            onError: (error, req, res) => res.status(418).json({ message: (error as Error).message }),
+        });
+        api.get('/teapot', () => {
+            throw new Error('short and stout');
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/teapot');
+        expect(response.status).toBe(418);
+        expect(await response.json()).toEqual({ message: 'short and stout' });
+    });
+});
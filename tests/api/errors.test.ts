@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+/**
+ * Serves an app with a validated route in an error format.
+ * @param errorFormat The error format.
+ * @returns The served app.
+ */
+async function serveWithFormat(errorFormat?: ConstructorParameters<typeof BreezeAPI>[0]['errorFormat']) {
+    const api = new BreezeAPI({ errorFormat });
+    api.get('/items', (req, res) => res.json([]), {
+        schema: { query: z.object({ page: z.number() }) },
+    });
+    return serveApi(api);
+}
+
+describe('problem details', () => {
+    test('are sent for validation failures', async () => {
+        server = await serveWithFormat('problem');
+        const response = await server.request('/items?page=x');
+        expect(response.status).toBe(400);
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(await response.json()).toEqual({
+            type: 'about:blank',
+            title: 'Bad Request',
+            status: 400,
+            detail: 'Request validation failed',
+            instance: '/items',
+            code: 'VALIDATION_FAILED',
+            errors: [
+                {
+                    field: 'query',
+                    path: 'page',
+                    message: 'Expected number, received string',
+                    code: 'invalid_type',
+                },
+            ],
+        });
+    });
+
+    test('are sent for unknown routes', async () => {
+        server = await serveWithFormat('problem');
+        const response = await server.request('/missing');
+        expect(response.status).toBe(404);
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(await response.json()).toMatchObject({
+            title: 'Not Found',
+            status: 404,
+            detail: 'Route not found',
+            instance: '/missing',
+            code: 'ROUTE_NOT_FOUND',
+        });
+    });
+
+    test('are sent for unsupported methods, with an Allow header', async () => {
+        server = await serveWithFormat('problem');
+        const response = await server.request('/items', { method: 'DELETE' });
+        expect(response.status).toBe(405);
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(response.headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+        expect(await response.json()).toMatchObject({
+            title: 'Method Not Allowed',
+            status: 405,
+            code: 'METHOD_NOT_ALLOWED',
+        });
+    });
+});
+
+describe('error formatters', () => {
+    test('format validation failures, 404 and 405', async () => {
+        server = await serveWithFormat((error) => ({ status: error.status, code: error.code }));
+
+        const invalid = await server.request('/items?page=x');
+        expect(await invalid.json()).toEqual({ status: 400, code: 'VALIDATION_FAILED' });
+        const missing = await server.request('/missing');
+        expect(await missing.json()).toEqual({ status: 404, code: 'ROUTE_NOT_FOUND' });
+        const method = await server.request('/items', { method: 'POST' });
+        expect(await method.json()).toEqual({ status: 405, code: 'METHOD_NOT_ALLOWED' });
+    });
+
+    test('can keep the old validation error body', async () => {
+        server = await serveWithFormat((error) =>
+            error.code === 'VALIDATION_FAILED' ? { errors: error.cause } : { error: error.title }
+        );
+        const response = await server.request('/items?page=x');
+        const body = await response.json();
+        expect(body.errors).toHaveLength(1);
+        expect(body.errors[0].field).toBe('query');
+        expect(body.errors[0].error.issues[0].path).toEqual(['page']);
+    });
+});
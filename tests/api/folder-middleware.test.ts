@@ -0,0 +1,68 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let dir: string;
+let server: TestServer | undefined;
+
+/**
+ * A middleware module source that adds a step to the `x-trace` header.
+ * @param step The step name.
+ * @returns The module source.
+ */
+const traceMiddleware = (step: string) =>
+    `export const middleware = [async (req, res, next) => { res.appendHeader('x-trace', '${step}'); return next(); }];\n`;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'breeze-folders-'));
+    const files: Record<string, string> = {
+        'middleware.ts': traceMiddleware('root'),
+        '(admin)/middleware.ts': [
+            traceMiddleware('admin'),
+            "export const guards = [async (req, res, next) => req.headers.get('x-token') === 'secret' ? next() : new Response('no', { status: 401 })];",
+            '',
+        ].join(''),
+        '(admin)/users/route.ts': [
+            traceMiddleware('route'),
+            'export const GET = (req, res) => res.json({ users: [] });',
+            '',
+        ].join(''),
+        'health/route.ts': 'export const GET = (req, res) => res.json({ ok: true });\n',
+    };
+    for (const [file, content] of Object.entries(files)) {
+        await mkdir(dirname(join(dir, file)), { recursive: true });
+        await writeFile(join(dir, file), content);
+    }
+});
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('folder middleware', () => {
+    test('runs from the outer to the inner folder, before the route middleware', async () => {
+        server = await serveApi(new BreezeAPI({ apiDir: dir }));
+        const response = await server.request('/users', { headers: { 'x-token': 'secret' } });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('x-trace')).toBe('root, admin, route');
+    });
+
+    test('applies the guards of a group folder to the routes below it', async () => {
+        server = await serveApi(new BreezeAPI({ apiDir: dir }));
+        const denied = await server.request('/users');
+        expect(denied.status).toBe(401);
+
+        const health = await server.request('/health');
+        expect(health.status).toBe(200);
+        expect(health.headers.get('x-trace')).toBe('root');
+    });
+});
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+import type { ResponseTiming } from '@Types';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+/**
+ * Waits until a condition holds, checking every 10ms for up to a second.
+ * @param condition The condition.
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await Bun.sleep(10);
+    }
+}
+
+describe('lifecycle hooks', () => {
+    test('run in order around the handler', async () => {
+        const calls: string[] = [];
+        const api = new BreezeAPI({
+            hooks: {
+                onRequest: () => void calls.push('onRequest'),
+                preValidation: () => void calls.push('preValidation'),
+                preHandler: () => void calls.push('preHandler'),
+                onSend: () => void calls.push('onSend'),
+                onResponse: () => void calls.push('onResponse'),
+            },
+        });
+        api.use(async (req, res, next) => {
+            calls.push('middleware');
+            return next();
+        });
+        api.get('/order', (req, res) => {
+            calls.push('handler');
+            return res.json({ ok: true });
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/order');
+        expect(await response.json()).toEqual({ ok: true });
+        await waitFor(() => calls.includes('onResponse'));
+        expect(calls).toEqual([
+            'onRequest',
+            'middleware',
+            'preValidation',
+            'preHandler',
+            'handler',
+            'onSend',
+            'onResponse',
+        ]);
+    });
+
+    test('run global hooks before route hooks of the same stage', async () => {
+        const calls: string[] = [];
+        const api = new BreezeAPI({ hooks: { preHandler: () => void calls.push('global') } });
+        api.get('/stages', (req, res) => res.json({}), {
+            config: { hooks: { preHandler: [() => void calls.push('route')] } },
+        });
+        server = await serveApi(api);
+
+        await (await server.request('/stages')).text();
+        expect(calls).toEqual(['global', 'route']);
+    });
+
+    test('answer the request when a hook returns a Response', async () => {
+        let handled = false;
+        const api = new BreezeAPI({
+            hooks: { preHandler: () => new Response('blocked', { status: 403 }) },
+        });
+        api.get('/blocked', (req, res) => {
+            handled = true;
+            return res.json({});
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/blocked');
+        expect(response.status).toBe(403);
+        expect(await response.text()).toBe('blocked');
+        expect(handled).toBe(false);
+    });
+
+    test('let onSend hooks replace the Response', async () => {
+        const api = new BreezeAPI({
+            hooks: {
+                onSend: [
+                    async (req, res, payload) =>
+                        new Response((await payload.text()).toUpperCase(), payload),
+                    (req, res, payload) => {
+                        payload.headers.set('x-sent', 'yes');
+                    },
+                ],
+            },
+        });
+        api.get('/shout', (req, res) => res.text('hello'));
+        server = await serveApi(api);
+
+        const response = await server.request('/shout');
+        expect(await response.text()).toBe('HELLO');
+        expect(response.headers.get('x-sent')).toBe('yes');
+    });
+
+    test('run onResponse once a streamed body has been sent', async () => {
+        const timings: ResponseTiming[] = [];
+        const api = new BreezeAPI({ hooks: { onResponse: (req, res, timing) => void timings.push(timing) } });
+        api.get('/stream', () => {
+            const body = new ReadableStream({
+                async start(controller) {
+                    controller.enqueue(new TextEncoder().encode('a'));
+                    await Bun.sleep(150);
+                    controller.enqueue(new TextEncoder().encode('b'));
+                    controller.close();
+                },
+            });
+            return new Response(body);
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/stream');
+        await Bun.sleep(50);
+        // The headers are in, but the body is still streaming
+        expect(timings).toHaveLength(0);
+
+        expect(await response.text()).toBe('ab');
+        await waitFor(() => timings.length > 0);
+        expect(timings).toHaveLength(1);
+        expect(timings[0].aborted).toBe(false);
+        expect(timings[0].duration).toBeGreaterThanOrEqual(140);
+    });
+
+    test('report bodies the client stopped reading as aborted', async () => {
+        const timings: ResponseTiming[] = [];
+        const api = new BreezeAPI({ hooks: { onResponse: (req, res, timing) => void timings.push(timing) } });
+        api.get('/endless', () => {
+            const body = new ReadableStream({
+                async pull(controller) {
+                    await Bun.sleep(10);
+                    controller.enqueue(new TextEncoder().encode('tick\n'));
+                },
+            });
+            return new Response(body);
+        });
+        server = await serveApi(api);
+
+        const controller = new AbortController();
+        const response = await server.request('/endless', { signal: controller.signal });
+        const reader = response.body!.getReader();
+        await reader.read();
+        controller.abort();
+
+        await waitFor(() => timings.length > 0);
+        expect(timings).toHaveLength(1);
+        expect(timings[0].aborted).toBe(true);
+    });
+
+    test('log errors thrown by onResponse hooks', async () => {
+        const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+        const calls: string[] = [];
+        const api = new BreezeAPI({
+            hooks: {
+                onResponse: [
+                    () => {
+                        throw new Error('metrics down');
+                    },
+                    () => void calls.push('second'),
+                ],
+            },
+        });
+        api.get('/metrics', (req, res) => res.json({}));
+        server = await serveApi(api);
+
+        const response = await server.request('/metrics');
+        expect(response.status).toBe(200);
+        await response.text();
+        await waitFor(() => calls.length > 0);
+        expect(calls).toEqual(['second']);
+        expect(consoleError).toHaveBeenCalledWith('onResponse hook failed:', expect.any(Error));
+        consoleError.mockRestore();
+    });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+describe('HEAD', () => {
+    test('is answered by the GET handler, without a body', async () => {
+        const api = new BreezeAPI({});
+        api.get('/report', (req, res) => res.header('x-rows', '3').json({ rows: [1, 2, 3] }));
+        server = await serveApi(api);
+
+        const response = await server.request('/report', { method: 'HEAD' });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('x-rows')).toBe('3');
+        expect(response.headers.get('content-type')).toContain('application/json');
+        expect(await response.text()).toBe('');
+    });
+
+    test('is not answered with autoHead disabled', async () => {
+        const api = new BreezeAPI({});
+        api.route('/report', { GET: (req, res) => res.json({}) }, { config: { autoHead: false } });
+        server = await serveApi(api);
+
+        const response = await server.request('/report', { method: 'HEAD' });
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe('GET, OPTIONS');
+    });
+});
+
+describe('OPTIONS', () => {
+    test('lists the methods of the route', async () => {
+        const api = new BreezeAPI({});
+        api.route('/items', {
+            GET: (req, res) => res.json([]),
+            DELETE: (req, res) => res.json({}),
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/items', { method: 'OPTIONS' });
+        expect(response.status).toBe(204);
+        expect(response.headers.get('allow')).toBe('GET, DELETE, HEAD, OPTIONS');
+    });
+
+    test('uses the allow list of the route config', async () => {
+        const api = new BreezeAPI({});
+        api.route('/items', { GET: (req, res) => res.json([]) }, { config: { allow: ['get'] } });
+        server = await serveApi(api);
+
+        const response = await server.request('/items', { method: 'OPTIONS' });
+        expect(response.headers.get('allow')).toBe('GET');
+    });
+
+    test('is handled by an OPTIONS export', async () => {
+        const api = new BreezeAPI({});
+        api.route('/items', {
+            GET: (req, res) => res.json([]),
+            OPTIONS: (req, res) => res.status(200).text('custom'),
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/items', { method: 'OPTIONS' });
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('custom');
+    });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { BreezeAPI, definePlugin } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+describe('plugin registration', () => {
+    test('loads plugins one at a time, children after their parent', async () => {
+        const calls: string[] = [];
+        const api = new BreezeAPI({});
+        api.register(async (app) => {
+            calls.push('first:start');
+            app.register(() => void calls.push('child'));
+            await Bun.sleep(20);
+            calls.push('first:end');
+        });
+        api.register(() => void calls.push('second'));
+
+        await api.ready();
+        expect(calls).toEqual(['first:start', 'first:end', 'child', 'second']);
+    });
+
+    test('loads plugins whose dependencies are registered before them', async () => {
+        const api = new BreezeAPI({});
+        api.register(definePlugin({ name: 'db', register() {} }));
+        api.register(definePlugin({ name: 'users', dependencies: ['db'], register() {} }));
+
+        await api.ready();
+        expect(api.hasPlugin('db')).toBe(true);
+        expect(api.hasPlugin('users')).toBe(true);
+    });
+
+    test('fails when a dependency is registered after the plugin', async () => {
+        const api = new BreezeAPI({});
+        api.register(definePlugin({ name: 'users', dependencies: ['db'], register() {} }));
+        api.register(definePlugin({ name: 'db', register() {} }));
+
+        await expect(api.ready()).rejects.toThrow(
+            "Plugin 'users' depends on 'db', which is not registered before it."
+        );
+    });
+
+    test('fails when a named plugin is registered twice', async () => {
+        const db = definePlugin({ name: 'db', register() {} });
+        const api = new BreezeAPI({});
+        api.register(db).register(db);
+
+        await expect(api.ready()).rejects.toThrow("Plugin 'db' is already registered.");
+    });
+});
+
+describe('plugin prefixes', () => {
+    test('scope middleware, hooks and decorators to the prefix', async () => {
+        const api = new BreezeAPI({});
+        api.register(
+            (app) => {
+                app.use(async (req, res, next) => {
+                    res.header('x-admin', 'yes');
+                    return next();
+                });
+                app.addHook('onSend', (req, res, payload) => {
+                    payload.headers.set('x-admin-hook', 'yes');
+                });
+                app.decorateRequest('adminName', 'root');
+                app.get('/stats', (req, res) => res.json({ name: req.adminName ?? null }));
+            },
+            { prefix: '/admin' }
+        );
+        api.get('/public', (req, res) => res.json({ name: req.adminName ?? null }));
+        server = await serveApi(api);
+
+        const admin = await server.request('/admin/stats');
+        expect(await admin.json()).toEqual({ name: 'root' });
+        expect(admin.headers.get('x-admin')).toBe('yes');
+        expect(admin.headers.get('x-admin-hook')).toBe('yes');
+
+        const pub = await server.request('/public');
+        expect(await pub.json()).toEqual({ name: null });
+        expect(pub.headers.get('x-admin')).toBeNull();
+        expect(pub.headers.get('x-admin-hook')).toBeNull();
+    });
+
+    test('do not allow a decorator name to be used twice', async () => {
+        const api = new BreezeAPI({});
+        api.decorateRequest('db', {});
+        api.register((app) => void app.decorateRequest('db', {}), { prefix: '/admin' });
+
+        await expect(api.ready()).rejects.toThrow("The request already has a 'db' property.");
+    });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+import type { Middleware } from '@Types';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+/**
+ * Creates middleware that records its name in the `X-Middleware` header.
+ * @param name The name to record.
+ * @returns The middleware.
+ */
+function tag(name: string): Middleware {
+    return async (req, res, next) => {
+        const response = await next();
+        const names = response.headers.get('x-middleware');
+        response.headers.set('x-middleware', names ? `${names},${name}` : name);
+        return response;
+    };
+}
+
+describe('routes in code', () => {
+    test('applies the config of a method to that method only', async () => {
+        const api = new BreezeAPI({});
+        api.get('/items', (req, res) => res.json({ method: 'GET' }), {
+            config: { middleware: [tag('get')] },
+        });
+        api.post('/items', (req, res) => res.json({ method: 'POST' }), {
+            config: { middleware: [tag('post')] },
+        });
+        api.put('/items', (req, res) => res.json({ method: 'PUT' }));
+        server = await serveApi(api);
+
+        const get = await server.request('/items');
+        expect(await get.json()).toEqual({ method: 'GET' });
+        expect(get.headers.get('x-middleware')).toBe('get');
+
+        const post = await server.request('/items', { method: 'POST' });
+        expect(await post.json()).toEqual({ method: 'POST' });
+        expect(post.headers.get('x-middleware')).toBe('post');
+
+        const put = await server.request('/items', { method: 'PUT' });
+        expect(put.headers.get('x-middleware')).toBeNull();
+    });
+
+    test('applies the guards of a method to that method only', async () => {
+        const api = new BreezeAPI({});
+        const deny: Middleware = async (req, res) => res.status(401).json({ error: 'denied' });
+        api.get('/admin', (req, res) => res.json({ ok: true }));
+        api.delete('/admin', (req, res) => res.json({ ok: true }), {
+            config: { guards: [deny] },
+        });
+        server = await serveApi(api);
+
+        expect((await server.request('/admin')).status).toBe(200);
+        expect((await server.request('/admin', { method: 'DELETE' })).status).toBe(401);
+    });
+
+    test('applies a route-wide config to every method', async () => {
+        const api = new BreezeAPI({});
+        api.route(
+            '/things',
+            {
+                GET: (req, res) => res.json({}),
+                POST: (req, res) => res.json({}),
+            },
+            { config: { middleware: [tag('route')] } }
+        );
+        server = await serveApi(api);
+
+        expect((await server.request('/things')).headers.get('x-middleware')).toBe('route');
+        const post = await server.request('/things', { method: 'POST' });
+        expect(post.headers.get('x-middleware')).toBe('route');
+    });
+
+    test('throws when a method is registered twice for a path', () => {
+        const api = new BreezeAPI({});
+        api.get('/twice', (req, res) => res.json({}));
+        expect(() => api.get('/twice', (req, res) => res.json({}))).toThrow(
+            "Route 'GET /twice' is already registered."
+        );
+    });
+});
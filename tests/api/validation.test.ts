@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+const orderSchema = z.object({
+    customer: z.string(),
+    express: z.boolean(),
+    items: z.array(z.object({ name: z.string(), quantity: z.number().int() })),
+});
+
+/**
+ * Serves an app with a route that echoes its validated body.
+ * @param options The API options.
+ * @returns The served app.
+ */
+async function serveOrders(options: ConstructorParameters<typeof BreezeAPI>[0] = {}) {
+    const api = new BreezeAPI(options);
+    api.post('/orders', (req, res) => res.json(req.validated.body), {
+        schema: { body: orderSchema },
+    });
+    return serveApi(api);
+}
+
+describe('form bodies', () => {
+    const expected = {
+        customer: 'ann',
+        express: true,
+        items: [
+            { name: 'tea', quantity: 2 },
+            { name: 'cake', quantity: 1 },
+        ],
+    };
+
+    test('are parsed like query strings and coerced to the schema', async () => {
+        server = await serveOrders();
+        const response = await server.request('/orders', {
+            method: 'POST',
+            body: new URLSearchParams(
+                'customer=ann&express=true&items[0][name]=tea&items[0][quantity]=2&items[1][name]=cake&items[1][quantity]=1'
+            ),
+        });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(expected);
+    });
+
+    test('are parsed the same way for multipart bodies, keeping files', async () => {
+        const api = new BreezeAPI({});
+        api.post(
+            '/upload',
+            (req, res) => {
+                const { title, files } = req.validated.body as { title: string; files: File[] };
+                return res.json({ title, names: files.map((file) => file.name) });
+            },
+            {
+                schema: {
+                    body: z.object({ title: z.string(), files: z.array(z.instanceof(File)) }),
+                },
+            }
+        );
+        server = await serveApi(api);
+
+        const form = new FormData();
+        form.append('title', 'report');
+        form.append('files[]', new File(['a'], 'a.txt'));
+        const response = await server.request('/upload', { method: 'POST', body: form });
+        expect(await response.json()).toEqual({ title: 'report', names: ['a.txt'] });
+    });
+
+    test('report fields that cannot be coerced', async () => {
+        server = await serveOrders();
+        const response = await server.request('/orders', {
+            method: 'POST',
+            body: new URLSearchParams('customer=ann&express=true&items[0][name]=tea&items[0][quantity]=many'),
+        });
+        expect(response.status).toBe(400);
+        expect((await response.json()).errors[0].path).toBe('items.0.quantity');
+    });
+});
+
+describe('body size limit', () => {
+    test('rejects larger bodies with a 413', async () => {
+        server = await serveOrders({ maxBodySize: 64 });
+        const response = await server.request('/orders', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({ customer: 'x'.repeat(100), express: false, items: [] }),
+        });
+        expect(response.status).toBe(413);
+        expect((await response.json()).code).toBe('BODY_TOO_LARGE');
+    });
+
+    test('rejects larger streamed bodies without a Content-Length', async () => {
+        server = await serveOrders({ maxBodySize: 64 });
+        const body = new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode(`customer=${'x'.repeat(100)}`));
+                controller.close();
+            },
+        });
+        const response = await server.request('/orders', {
+            method: 'POST',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body,
+        });
+        expect(response.status).toBe(413);
+    });
+
+    test('accepts bodies up to the limit', async () => {
+        server = await serveOrders({ maxBodySize: 64 });
+        const response = await server.request('/orders', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({ customer: 'ann', express: false, items: [] }),
+        });
+        expect(response.status).toBe(200);
+    });
+});
@@ -0,0 +1,222 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+import { ApiRouter } from '@core/api-router.js';
+
+const dirs: string[] = [];
+
+afterAll(async () => {
+    await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+/**
+ * Creates a routes directory from file contents.
+ * @param files The file contents by path, e.g. `{ 'users/[id]/route.ts': '...' }`.
+ * @returns The directory.
+ */
+async function writeRoutes(files: Record<string, string>): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'breeze-routes-'));
+    dirs.push(dir);
+    for (const [file, content] of Object.entries(files)) {
+        await mkdir(dirname(join(dir, file)), { recursive: true });
+        await writeFile(join(dir, file), content);
+    }
+    return dir;
+}
+
+/**
+ * Creates a routes directory from file contents and loads it.
+ * @param files The file contents by path.
+ * @returns The router with the routes loaded.
+ */
+async function loadRouter(files: Record<string, string>): Promise<ApiRouter> {
+    const router = new ApiRouter(await writeRoutes(files));
+    await router.loadRoutes();
+    return router;
+}
+
+/** A route module answering GET with its own name */
+const route = (name: string) => `export const GET = () => new Response('${name}');\n`;
+
+/**
+ * Creates a GET request for a path.
+ * @param path The request path.
+ * @param method The request method.
+ * @returns The request.
+ */
+function request(path: string, method = 'GET') {
+    return new Request(`http://localhost${path}`, { method });
+}
+
+describe('resolve', () => {
+    test('backtracks from a static folder into a dynamic sibling', async () => {
+        const router = await loadRouter({
+            'users/me/settings/route.ts': route('settings'),
+            'users/[id]/posts/route.ts': route('posts'),
+        });
+        const settings = router.resolve(request('/users/me/settings'));
+        expect(settings.route?.path).toBe('/users/me/settings');
+
+        const posts = router.resolve(request('/users/me/posts'));
+        expect(posts.route?.path).toBe('/users/:id/posts');
+        expect(posts.params).toEqual({ id: 'me' });
+    });
+
+    test('prefers static over dynamic over catch-all segments', async () => {
+        const router = await loadRouter({
+            'files/latest/route.ts': route('latest'),
+            'files/[id]/route.ts': route('file'),
+            'files/[...path]/route.ts': route('path'),
+        });
+        expect(router.resolve(request('/files/latest')).route?.path).toBe('/files/latest');
+        expect(router.resolve(request('/files/7')).params).toEqual({ id: '7' });
+        const nested = router.resolve(request('/files/a/b/c'));
+        expect(nested.route?.path).toBe('/files/:path+');
+        expect(nested.params).toEqual({ path: ['a', 'b', 'c'] });
+    });
+
+    test('matches optional catch-alls with zero segments', async () => {
+        const router = await loadRouter({ 'docs/[[...slug]]/route.ts': route('docs') });
+        expect(router.resolve(request('/docs')).params).toEqual({ slug: [] });
+        expect(router.resolve(request('/docs/a/b')).params).toEqual({ slug: ['a', 'b'] });
+    });
+
+    test('lists the allowed methods of a path without a handler for the method', async () => {
+        const router = await loadRouter({
+            'items/route.ts': `${route('items')}export const POST = () => new Response();\n`,
+        });
+        const result = router.resolve(request('/items', 'DELETE'));
+        expect(result.route).toBeUndefined();
+        expect(result.pathRoute?.path).toBe('/items');
+        expect(result.allowedMethods).toEqual(['GET', 'POST', 'HEAD', 'OPTIONS']);
+    });
+
+    test('finds nothing for unknown paths', async () => {
+        const router = await loadRouter({ 'items/route.ts': route('items') });
+        const result = router.resolve(request('/missing'));
+        expect(result.route).toBeUndefined();
+        expect(result.allowedMethods).toBeUndefined();
+    });
+});
+
+describe('findFallback', () => {
+    test('backtracks into a dynamic folder when a static sibling has no fallback', async () => {
+        const router = await loadRouter({
+            'users/new/route.ts': route('new'),
+            'users/[id]/route.ts': route('user'),
+            'users/[id]/not-found.ts': route('user-not-found'),
+        });
+        const fallback = router.findFallback(request('/users/new/missing'), 'notFound');
+        expect(fallback?.path).toBe('/users/:id');
+    });
+
+    test('prefers the fallback of a static folder', async () => {
+        const router = await loadRouter({
+            'users/new/route.ts': route('new'),
+            'users/new/not-found.ts': route('new-not-found'),
+            'users/[id]/not-found.ts': route('user-not-found'),
+        });
+        const fallback = router.findFallback(request('/users/new/missing'), 'notFound');
+        expect(fallback?.path).toBe('/users/new');
+    });
+
+    test('uses the nearest fallback above the path', async () => {
+        const router = await loadRouter({
+            'not-found.ts': route('root-not-found'),
+            'users/[id]/route.ts': route('user'),
+        });
+        expect(router.findFallback(request('/users/1/missing'), 'notFound')?.path).toBe('/');
+    });
+
+    test('finds method-not-allowed fallbacks below dynamic folders', async () => {
+        const router = await loadRouter({
+            'users/new/route.ts': route('new'),
+            'users/[id]/method-not-allowed.ts': route('user-405'),
+        });
+        const fallback = router.findFallback(request('/users/new/x', 'GET'), 'methodNotAllowed');
+        expect(fallback?.path).toBe('/users/:id');
+    });
+
+    test('skips fallbacks that do not handle the method', async () => {
+        const router = await loadRouter({
+            'not-found.ts': route('root-not-found'),
+            'users/[id]/not-found.ts': 'export const POST = () => new Response();\n',
+        });
+        expect(router.findFallback(request('/users/1/x'), 'notFound')?.path).toBe('/');
+    });
+});
+
+describe('routes in code', () => {
+    test('are served next to the file routes', async () => {
+        const router = new ApiRouter(await writeRoutes({ 'users/[id]/route.ts': route('user') }));
+        router.addRoute('/users/:id/avatar', { GET: () => new Response('avatar') });
+        await router.loadRoutes();
+
+        expect(router.resolve(request('/users/1')).route?.file).toContain('route.ts');
+        const avatar = router.resolve(request('/users/1/avatar'));
+        expect(avatar.route?.file).toBeUndefined();
+        expect(avatar.params).toEqual({ id: '1' });
+    });
+
+    test('conflict with a file route for the same path', async () => {
+        const dir = await writeRoutes({ 'users/route.ts': route('users') });
+        const router = new ApiRouter(dir);
+        router.addRoute('/users', { POST: () => new Response() });
+
+        await expect(router.loadRoutes()).rejects.toThrow(
+            `Route conflict: '/users' is defined by both '${join(dir, 'users/route.ts')}' and a route registered in code.`
+        );
+    });
+
+    test('conflict with a file route naming a parameter differently', async () => {
+        const router = new ApiRouter(await writeRoutes({ 'users/[id]/route.ts': route('user') }));
+        router.addRoute('/users/:userId/posts', { GET: () => new Response() });
+
+        await expect(router.loadRoutes()).rejects.toThrow(
+            "parameter ':userId' of '/users/:userId/posts' in a route registered in code is named ':id'"
+        );
+    });
+
+    test('keep the previous routes when loading fails', async () => {
+        const router = new ApiRouter(await writeRoutes({ 'users/route.ts': route('users') }));
+        await router.loadRoutes();
+        router.addRoute('/users', { GET: () => new Response() });
+
+        await expect(router.loadRoutes()).rejects.toThrow('Route conflict');
+        expect(router.resolve(request('/users')).route?.file).toContain('route.ts');
+    });
+});
+
+describe('route conflicts', () => {
+    test('name both files defining the same path', async () => {
+        const dir = await writeRoutes({
+            '(a)/users/route.ts': route('a'),
+            '(b)/users/route.ts': route('b'),
+        });
+
+        await expect(new ApiRouter(dir).loadRoutes()).rejects.toThrow(
+            `Route conflict: '/users' is defined by both '${join(dir, '(a)/users/route.ts')}' and '${join(dir, '(b)/users/route.ts')}'.`
+        );
+    });
+
+    test('name both files naming a parameter differently', async () => {
+        const dir = await writeRoutes({
+            'users/[id]/route.ts': route('user'),
+            '(admin)/users/[userId]/posts/route.ts': route('posts'),
+        });
+
+        await expect(new ApiRouter(dir).loadRoutes()).rejects.toThrow(
+            `Route conflict: parameter ':userId' of '/users/:userId/posts' in '${join(dir, '(admin)/users/[userId]/posts/route.ts')}' is named ':id' in '${join(dir, 'users/[id]/route.ts')}'.`
+        );
+    });
+
+    test('are not reported for the same parameter in different files', async () => {
+        const router = await loadRouter({
+            'users/[id]/route.ts': route('user'),
+            '(admin)/users/[id]/posts/route.ts': route('posts'),
+        });
+        expect(router.resolve(request('/users/7/posts')).params).toEqual({ id: '7' });
+    });
+});
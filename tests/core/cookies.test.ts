@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+
+import { HttpRequest } from '@core/request.js';
+import { HttpResponse } from '@core/response.js';
+
+const SECRETS = ['secret'];
+
+/**
+ * Creates a request with a Cookie header.
+ * @param cookie The Cookie header.
+ * @returns The request.
+ */
+function requestWithCookie(cookie: string) {
+    return new HttpRequest(new Request('http://localhost/', { headers: { cookie } }), SECRETS);
+}
+
+/**
+ * Returns the value of a Set-Cookie header, without its attributes.
+ * @param setCookie The Set-Cookie header.
+ * @returns The cookie value.
+ */
+function cookieValue(setCookie: string) {
+    const pair = setCookie.split(';')[0];
+    return pair.slice(pair.indexOf('=') + 1);
+}
+
+describe('signed cookies', () => {
+    test('are read back under their name', () => {
+        const res = new HttpResponse(SECRETS).signedCookie('pref', 'dark');
+        const value = cookieValue(res.build().headers.getSetCookie()[0]);
+        expect(requestWithCookie(`pref=${value}`).getSignedCookie('pref')).toBe('dark');
+    });
+
+    test('are rejected when moved to another cookie', () => {
+        const res = new HttpResponse(SECRETS).signedCookie('pref', 'admin');
+        const value = cookieValue(res.build().headers.getSetCookie()[0]);
+        expect(requestWithCookie(`sid=${value}`).getSignedCookie('sid')).toBeUndefined();
+    });
+});
+
+describe('encrypted cookies', () => {
+    test('are read back under their name', async () => {
+        const res = await new HttpResponse(SECRETS).encryptedCookie('cart', '[1,2]');
+        const value = cookieValue(res.build().headers.getSetCookie()[0]);
+        expect(await requestWithCookie(`cart=${value}`).getEncryptedCookie('cart')).toBe('[1,2]');
+    });
+
+    test('are rejected when moved to another cookie', async () => {
+        const res = await new HttpResponse(SECRETS).encryptedCookie('cart', '[1,2]');
+        const value = cookieValue(res.build().headers.getSetCookie()[0]);
+        expect(await requestWithCookie(`other=${value}`).getEncryptedCookie('other')).toBeUndefined();
+    });
+});
+
+describe('applyCookies', () => {
+    test('sends a cookie set again only once, with its last value', () => {
+        const res = new HttpResponse(SECRETS).cookie('sid', 'old').cookie('theme', 'dark');
+        const built = res.build();
+        res.cookie('sid', 'new');
+        expect(res.applyCookies(built).headers.getSetCookie()).toEqual([
+            'theme=dark; Path=/',
+            'sid=new; Path=/',
+        ]);
+    });
+
+    test('keeps the cookies of a Response the handler built itself', () => {
+        const res = new HttpResponse(SECRETS).cookie('sid', 'abc');
+        const response = new Response(null, { headers: { 'Set-Cookie': 'flash=hi' } });
+        expect(res.applyCookies(response).headers.getSetCookie()).toEqual(['flash=hi', 'sid=abc; Path=/']);
+    });
+});
+
+describe('cookies', () => {
+    test('write every attribute, including Partitioned and Priority', () => {
+        const res = new HttpResponse(SECRETS).cookie('widget', 'a b', {
+            domain: 'example.com',
+            path: '/app',
+            maxAge: 60,
+            sameSite: 'none',
+            secure: true,
+            httpOnly: true,
+            partitioned: true,
+            priority: 'high',
+        });
+        expect(res.build().headers.getSetCookie()).toEqual([
+            'widget=a%20b; Domain=example.com; Path=/app; Max-Age=60; SameSite=none; Secure; HttpOnly; Partitioned; Priority=high',
+        ]);
+    });
+
+    test('are each sent as their own Set-Cookie header', () => {
+        const res = new HttpResponse(SECRETS)
+            .cookie('theme', 'dark')
+            .header('Set-Cookie', 'flash=hi')
+            .cookie('lang', 'en');
+        expect(res.build().headers.getSetCookie()).toEqual([
+            'theme=dark; Path=/',
+            'flash=hi',
+            'lang=en; Path=/',
+        ]);
+    });
+
+    test('are all removed with the Set-Cookie header', () => {
+        const res = new HttpResponse(SECRETS).cookie('theme', 'dark').cookie('lang', 'en');
+        res.removeHeader('Set-Cookie');
+        expect(res.build().headers.getSetCookie()).toEqual([]);
+    });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import {
+    Conflict,
+    HttpError,
+    NotFound,
+    ServiceUnavailable,
+    TooManyRequests,
+} from '@core/errors.js';
+import { ApiRouter } from '@core/api-router.js';
+import { generateOpenAPIDocument } from '@core/openapi.js';
+import { BreezeAPI } from '../../src/index.ts';
+import { serveApi, type TestServer } from '../helpers.ts';
+
+let server: TestServer | undefined;
+
+afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+});
+
+describe('HttpError', () => {
+    test('defaults its message and code to the status', () => {
+        const error = new NotFound();
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.name).toBe('NotFound');
+        expect(error.status).toBe(404);
+        expect(error.message).toBe('Not Found');
+        expect(error.code).toBe('NOT_FOUND');
+        expect(new HttpError(418).code).toBe('IM_A_TEAPOT');
+    });
+
+    test('sends retryAfter as the Retry-After header', () => {
+        const error = new TooManyRequests('Slow down', { retryAfter: 30, headers: { 'X-Limit': '10' } });
+        expect(error.status).toBe(429);
+        expect(error.headers).toEqual({ 'Retry-After': '30', 'X-Limit': '10' });
+    });
+});
+
+describe('thrown HttpErrors', () => {
+    test('are sent with their status, code, details and headers', async () => {
+        const api = new BreezeAPI({});
+        api.get('/products/:id', () => {
+            throw new NotFound('Product not found', {
+                code: 'PRODUCT_NOT_FOUND',
+                details: { id: '7' },
+            });
+        });
+        api.post('/login', () => {
+            throw new TooManyRequests('Slow down', { retryAfter: 30 });
+        });
+        server = await serveApi(api);
+
+        const missing = await server.request('/products/7');
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toEqual({
+            error: 'Product not found',
+            code: 'PRODUCT_NOT_FOUND',
+            details: { id: '7' },
+        });
+
+        const limited = await server.request('/login', { method: 'POST' });
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get('retry-after')).toBe('30');
+    });
+
+    test('are sent as problem details in that format', async () => {
+        const api = new BreezeAPI({ errorFormat: 'problem' });
+        api.get('/orders', () => {
+            throw new Conflict('Order is locked');
+        });
+        server = await serveApi(api);
+
+        const response = await server.request('/orders');
+        expect(response.status).toBe(409);
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(await response.json()).toMatchObject({
+            title: 'Conflict',
+            status: 409,
+            detail: 'Order is locked',
+            code: 'CONFLICT',
+        });
+    });
+
+    test('are also mapped when thrown by middleware, and logged for server errors', async () => {
+        const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+        const api = new BreezeAPI({});
+        api.use(async () => {
+            throw new ServiceUnavailable('Maintenance');
+        });
+        api.get('/items', (req, res) => res.json([]));
+        server = await serveApi(api);
+
+        const response = await server.request('/items');
+        expect(response.status).toBe(503);
+        expect((await response.json()).error).toBe('Maintenance');
+        expect(consoleError).toHaveBeenCalledTimes(1);
+        consoleError.mockRestore();
+    });
+});
+
+describe('declared HttpErrors', () => {
+    test('are documented as OpenAPI responses, grouped by status', async () => {
+        const router = new ApiRouter();
+        router.addRoute('/products/:id', {
+            GET: () => new Response(),
+            openapi: {
+                get: {
+                    errors: [NotFound, new NotFound('', { code: 'PRODUCT_NOT_FOUND' }), TooManyRequests],
+                },
+            },
+        });
+        await router.loadRoutes();
+
+        const responses = generateOpenAPIDocument(router, {}).paths['/products/{id}'].get.responses;
+        expect(responses[404].description).toBe('Not Found (NOT_FOUND, PRODUCT_NOT_FOUND)');
+        expect(responses[404].content['application/json'].schema.properties.code.enum).toEqual([
+            'NOT_FOUND',
+            'PRODUCT_NOT_FOUND',
+        ]);
+        expect(responses[429].description).toBe('Too Many Requests (TOO_MANY_REQUESTS)');
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { ApiRouter } from '@core/api-router.js';
+import { generateOpenAPIDocument } from '@core/openapi.js';
+
+describe('generateOpenAPIDocument', () => {
+    test('documents the base path of an optional catch-all without its parameter', async () => {
+        const router = new ApiRouter();
+        router.addRoute('/items/:idx/files/:id*', {
+            GET: () => new Response(),
+            schema: {
+                get: { params: z.object({ idx: z.string(), id: z.array(z.string()).optional() }) },
+            },
+        });
+        await router.loadRoutes();
+        const doc = generateOpenAPIDocument(router, {});
+
+        const names = (path: string) =>
+            doc.paths[path].get.parameters.map((p: { name: string }) => p.name);
+        expect(names('/items/{idx}/files/{id}')).toEqual(['idx', 'id']);
+        expect(names('/items/{idx}/files')).toEqual(['idx']);
+    });
+});
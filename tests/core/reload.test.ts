@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ApiRouter } from '@core/api-router.js';
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'breeze-reload-'));
+    await writeFile(join(dir, '_greeting.ts'), "export const greeting = 'hello';\n");
+    await writeFile(
+        join(dir, 'route.ts'),
+        "import { greeting } from './_greeting.ts';\nexport const GET = () => new Response(greeting);\n"
+    );
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Calls the GET handler of the root route.
+ * @param router The router.
+ * @returns The response text.
+ */
+async function getRoot(router: ApiRouter) {
+    const { route } = router.resolve(new Request('http://localhost/'));
+    return (await (route!.handlers.GET as () => Response)()).text();
+}
+
+describe('ApiRouter.reload', () => {
+    test('picks up changes to a helper imported by a route', async () => {
+        const router = new ApiRouter(dir);
+        await router.loadRoutes();
+        expect(await getRoot(router)).toBe('hello');
+
+        const helper = join(dir, '_greeting.ts');
+        await writeFile(helper, "export const greeting = 'hi';\n");
+        await router.reload([helper]);
+        expect(await getRoot(router)).toBe('hi');
+    });
+});
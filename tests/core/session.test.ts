@@ -0,0 +1,157 @@
+import { afterAll, afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BreezeAPI } from '../../src/index.ts';
+import { MemoryStore, SqliteStore } from '@core/session-store.js';
+import { serveApi, type TestServer } from '../helpers.ts';
+import type { SessionStore } from '@Types';
+
+let server: TestServer | undefined;
+let sqliteDir: string | undefined;
+
+afterEach(async () => {
+    setSystemTime();
+    await server?.stop();
+    server = undefined;
+});
+
+afterAll(async () => {
+    if (sqliteDir) {
+        await rm(sqliteDir, { recursive: true, force: true });
+    }
+});
+
+/**
+ * Returns the Cookie header that sends back the cookies of a response.
+ * @param response The response.
+ * @returns The Cookie header.
+ */
+function cookiesOf(response: Response): string {
+    return response.headers
+        .getSetCookie()
+        .map((cookie) => cookie.split(';')[0])
+        .join('; ');
+}
+
+describe.each([
+    ['MemoryStore', async () => new MemoryStore()],
+    [
+        'SqliteStore',
+        async () => {
+            sqliteDir ??= await mkdtemp(join(tmpdir(), 'breeze-sessions-'));
+            return new SqliteStore({ filename: join(sqliteDir, 'sessions.sqlite') });
+        },
+    ],
+] as [string, () => Promise<SessionStore>][])('%s', (name, createStore) => {
+    test('keeps sessions until they expire', async () => {
+        const store = await createStore();
+        const expires = Date.now() + 1000;
+        await store.set('a', { data: { userId: 7 }, expires });
+        expect(await store.get('a')).toEqual({ data: { userId: 7 }, expires });
+
+        setSystemTime(new Date(expires));
+        expect(await store.get('a')).toBeUndefined();
+    });
+
+    test('replaces and deletes sessions', async () => {
+        const store = await createStore();
+        const expires = Date.now() + 1000;
+        await store.set('b', { data: { n: 1 }, expires });
+        await store.set('b', { data: { n: 2 }, expires });
+        expect((await store.get('b'))?.data).toEqual({ n: 2 });
+
+        await store.destroy('b');
+        expect(await store.get('b')).toBeUndefined();
+    });
+
+    test('does not share the stored data with the caller', async () => {
+        const store = await createStore();
+        const data = { items: [1] };
+        await store.set('c', { data, expires: Date.now() + 1000 });
+        data.items.push(2);
+        expect((await store.get('c'))?.data).toEqual({ items: [1] });
+    });
+});
+
+describe('sessions', () => {
+    /**
+     * Serves an app with session routes.
+     * @param store The session store.
+     * @returns The served app.
+     */
+    async function serveSessions(store: SessionStore) {
+        const api = new BreezeAPI({ config: { session: { secret: 'secret', maxAge: 100, store } } });
+        api.post('/login', async (req, res) => {
+            await req.session.regenerate();
+            req.session.set('userId', 7);
+            return res.json({ ok: true });
+        });
+        api.post('/logout', async (req, res) => {
+            await req.session.destroy();
+            return res.json({ ok: true });
+        });
+        api.get('/me', (req, res) => res.json({ userId: req.session.get('userId') ?? null }));
+        return serveApi(api);
+    }
+
+    test('send one session cookie after regenerate()', async () => {
+        const store = new MemoryStore();
+        server = await serveSessions(store);
+        const first = await server.request('/login', { method: 'POST' });
+        const oldCookie = cookiesOf(first);
+
+        // Age the session, so the request restarts its expiry before regenerating it
+        setSystemTime(new Date(Date.now() + 60_000));
+        const second = await server.request('/login', { method: 'POST', headers: { cookie: oldCookie } });
+        const setCookies = second.headers.getSetCookie();
+        expect(setCookies).toHaveLength(1);
+
+        const newCookie = cookiesOf(second);
+        expect(newCookie).not.toBe(oldCookie);
+        const me = await server.request('/me', { headers: { cookie: newCookie } });
+        expect(await me.json()).toEqual({ userId: 7 });
+        const old = await server.request('/me', { headers: { cookie: oldCookie } });
+        expect(await old.json()).toEqual({ userId: null });
+    });
+
+    test('clear the session cookie after destroy()', async () => {
+        const store = new MemoryStore();
+        server = await serveSessions(store);
+        const cookie = cookiesOf(await server.request('/login', { method: 'POST' }));
+
+        setSystemTime(new Date(Date.now() + 60_000));
+        const response = await server.request('/logout', { method: 'POST', headers: { cookie } });
+        const setCookies = response.headers.getSetCookie();
+        expect(setCookies).toHaveLength(1);
+        expect(setCookies[0]).toContain('Max-Age=0');
+
+        const me = await server.request('/me', { headers: { cookie } });
+        expect(await me.json()).toEqual({ userId: null });
+    });
+
+    test('restart their expiry only once half of maxAge has passed', async () => {
+        const store = new MemoryStore();
+        const writes: string[] = [];
+        const set = store.set.bind(store);
+        store.set = (id, session) => {
+            writes.push(id);
+            return set(id, session);
+        };
+        server = await serveSessions(store);
+        const cookie = cookiesOf(await server.request('/login', { method: 'POST' }));
+        expect(writes).toHaveLength(1);
+
+        const fresh = await server.request('/me', { headers: { cookie } });
+        expect(await fresh.json()).toEqual({ userId: 7 });
+        expect(fresh.headers.getSetCookie()).toHaveLength(0);
+        expect(writes).toHaveLength(1);
+
+        setSystemTime(new Date(Date.now() + 60_000));
+        const aged = await server.request('/me', { headers: { cookie } });
+        expect(await aged.json()).toEqual({ userId: 7 });
+        expect(aged.headers.getSetCookie()).toHaveLength(1);
+        expect(writes).toHaveLength(2);
+    });
+});
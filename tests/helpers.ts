@@ -0,0 +1,41 @@
+import type { BreezeAPI } from '../src/index.ts';
+
+/** The next port to serve test apps on; each test file starts at a random base */
+let nextPort = 20000 + Math.floor(Math.random() * 20000);
+
+/**
+ * A test app served on a local port.
+ */
+export interface TestServer {
+    /** The base URL of the server, e.g. "http://localhost:23456" */
+    url: string;
+
+    /**
+     * Sends a request to the server.
+     * @param path The path, e.g. "/users/1".
+     * @param init The request options.
+     * @returns The response.
+     */
+    request(path: string, init?: RequestInit): Promise<Response>;
+
+    /** Stops the server */
+    stop(): Promise<void>;
+}
+
+/**
+ * Serves an app on a free local port for a test.
+ * @param api The app, with its routes registered.
+ * @returns The served app.
+ */
+export async function serveApi(api: BreezeAPI): Promise<TestServer> {
+    const port = nextPort++;
+    await api.serve(port);
+    const url = `http://localhost:${port}`;
+    return {
+        url,
+        request: (path, init) => fetch(url + path, init),
+        stop: async () => {
+            await api.stop();
+        },
+    };
+}
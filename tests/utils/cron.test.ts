@@ -0,0 +1,174 @@
+import { describe, expect, test } from 'bun:test';
+
+import { isValidTimeZone, nextCronDate, parseCronExpression } from '@utils/cron.js';
+
+/**
+ * Finds the next run of a cron expression in UTC, unless a time zone is given.
+ * @param expression The cron expression.
+ * @param after The ISO date to search from (exclusive).
+ * @param timeZone The IANA time zone.
+ * @returns The ISO date of the next run, or undefined if there is none.
+ */
+function next(expression: string, after: string, timeZone = 'UTC') {
+    return nextCronDate(parseCronExpression(expression), new Date(after), timeZone)?.toISOString();
+}
+
+/**
+ * Sorts the values of a parsed cron field.
+ * @param values The allowed values of the field.
+ * @returns The values in ascending order.
+ */
+function sorted(values: Set<number>) {
+    return [...values].sort((a, b) => a - b);
+}
+
+describe('parseCronExpression', () => {
+    test('parses six-field expressions', () => {
+        const expression = parseCronExpression('30 15 10 1 6 2');
+        expect(sorted(expression.seconds)).toEqual([30]);
+        expect(sorted(expression.minutes)).toEqual([15]);
+        expect(sorted(expression.hours)).toEqual([10]);
+        expect(sorted(expression.daysOfMonth)).toEqual([1]);
+        expect(sorted(expression.months)).toEqual([6]);
+        expect(sorted(expression.daysOfWeek)).toEqual([2]);
+    });
+
+    test('runs five-field expressions at second 0', () => {
+        const expression = parseCronExpression('15 10 * * *');
+        expect(sorted(expression.seconds)).toEqual([0]);
+        expect(sorted(expression.minutes)).toEqual([15]);
+        expect(sorted(expression.hours)).toEqual([10]);
+    });
+
+    test('parses steps, ranges and lists', () => {
+        const expression = parseCronExpression('*/15 0-30/10 1-3,22 5/10 * *');
+        expect(sorted(expression.seconds)).toEqual([0, 15, 30, 45]);
+        expect(sorted(expression.minutes)).toEqual([0, 10, 20, 30]);
+        expect(sorted(expression.hours)).toEqual([1, 2, 3, 22]);
+        expect(sorted(expression.daysOfMonth)).toEqual([5, 15, 25]);
+    });
+
+    test('parses month and weekday names, case-insensitively', () => {
+        const expression = parseCronExpression('0 0 0 * jan-MAR,Dec MON-fri');
+        expect(sorted(expression.months)).toEqual([1, 2, 3, 12]);
+        expect(sorted(expression.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('treats 7 as Sunday', () => {
+        expect(sorted(parseCronExpression('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+    });
+
+    test('records whether the day fields are restricted', () => {
+        const any = parseCronExpression('0 0 0 * * ?');
+        expect(any.anyDayOfMonth).toBe(true);
+        expect(any.anyDayOfWeek).toBe(true);
+
+        const both = parseCronExpression('0 0 0 1 * MON');
+        expect(both.anyDayOfMonth).toBe(false);
+        expect(both.anyDayOfWeek).toBe(false);
+    });
+
+    test.each([
+        ['* * * *', 'expected 6 fields, got 4'],
+        ['* * * * * * *', 'expected 6 fields, got 7'],
+        ['60 * * * * *', "invalid second '60'"],
+        ['* * 24 * * *', "invalid hour '24'"],
+        ['* * * 0 * *', "invalid day of month '0'"],
+        ['* * * * 13 *', "invalid month '13'"],
+        ['* * * * * 8', "invalid day of week '8'"],
+        ['* * * * FOO *', "invalid month 'FOO'"],
+        ['*/0 * * * * *', "invalid second '*/0'"],
+        ['*/x * * * * *', "invalid second '*/x'"],
+        ['1/2/3 * * * * *', "invalid second '1/2/3'"],
+        ['* 30-10 * * * *', "invalid minute range '30-10'"],
+    ])('rejects %p', (expression, message) => {
+        expect(() => parseCronExpression(expression)).toThrow(
+            `Invalid cron expression '${expression}': ${message}`
+        );
+    });
+});
+
+describe('nextCronDate', () => {
+    test('searches from the next whole second', () => {
+        expect(next('* * * * * *', '2024-01-01T00:00:00.000Z')).toBe('2024-01-01T00:00:01.000Z');
+        expect(next('* * * * * *', '2024-01-01T00:00:00.500Z')).toBe('2024-01-01T00:00:01.000Z');
+    });
+
+    test('finds the next matching time', () => {
+        expect(next('0 */15 * * * *', '2024-01-01T10:07:00Z')).toBe('2024-01-01T10:15:00.000Z');
+        expect(next('0 0 9 * * *', '2024-01-01T09:00:00Z')).toBe('2024-01-02T09:00:00.000Z');
+        expect(next('0 0 0 1 * *', '2024-01-15T00:00:00Z')).toBe('2024-02-01T00:00:00.000Z');
+        expect(next('0 0 0 1 1 *', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    test('matches weekdays', () => {
+        // 2024-01-01 is a Monday
+        expect(next('0 0 12 * * SAT', '2024-01-01T00:00:00Z')).toBe('2024-01-06T12:00:00.000Z');
+        expect(next('0 0 12 * * 7', '2024-01-01T00:00:00Z')).toBe('2024-01-07T12:00:00.000Z');
+    });
+
+    test('matches either day field when both are restricted', () => {
+        // The 15th (a Monday) or any Friday
+        const expression = '0 0 0 15 * FRI';
+        expect(next(expression, '2024-01-01T00:00:00Z')).toBe('2024-01-05T00:00:00.000Z');
+        expect(next(expression, '2024-01-12T00:00:00Z')).toBe('2024-01-15T00:00:00.000Z');
+        expect(next(expression, '2024-01-15T00:00:00Z')).toBe('2024-01-19T00:00:00.000Z');
+    });
+
+    test('matches both day fields when one is a wildcard', () => {
+        // Fridays in January only
+        expect(next('0 0 0 * 1 FRI', '2024-01-27T00:00:00Z')).toBe('2025-01-03T00:00:00.000Z');
+    });
+
+    test('finds February 29th in the next leap year', () => {
+        expect(next('0 0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    });
+
+    test('returns undefined for expressions that never match', () => {
+        expect(next('0 0 0 31 2 *', '2024-01-01T00:00:00Z')).toBeUndefined();
+        expect(next('0 0 0 30 2 *', '2024-01-01T00:00:00Z')).toBeUndefined();
+    });
+
+    test('matches the wall clock of the time zone', () => {
+        expect(next('0 0 9 * * *', '2024-01-01T00:00:00Z', 'Asia/Kolkata')).toBe(
+            '2024-01-01T03:30:00.000Z'
+        );
+        expect(next('0 0 9 * * *', '2024-07-01T00:00:00Z', 'America/New_York')).toBe(
+            '2024-07-01T13:00:00.000Z'
+        );
+    });
+
+    test('skips times in the daylight saving gap', () => {
+        // On 2024-03-10, New York clocks jump from 02:00 to 03:00
+        expect(next('0 30 2 * * *', '2024-03-10T05:00:00Z', 'America/New_York')).toBe(
+            '2024-03-11T06:30:00.000Z'
+        );
+        expect(next('0 0 3 * * *', '2024-03-10T05:00:00Z', 'America/New_York')).toBe(
+            '2024-03-10T07:00:00.000Z'
+        );
+    });
+
+    test('finds midnight after a day that loses an hour', () => {
+        expect(next('0 30 0 11 3 *', '2024-03-10T05:00:00Z', 'America/New_York')).toBe(
+            '2024-03-11T04:30:00.000Z'
+        );
+    });
+
+    test('finds midnight after a day that gains an hour', () => {
+        // On 2024-11-03, New York clocks fall back from 02:00 to 01:00
+        expect(next('0 30 0 4 11 *', '2024-11-03T04:00:00Z', 'America/New_York')).toBe(
+            '2024-11-04T05:30:00.000Z'
+        );
+    });
+});
+
+describe('isValidTimeZone', () => {
+    test('accepts IANA time zones', () => {
+        expect(isValidTimeZone('UTC')).toBe(true);
+        expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    });
+
+    test('rejects unknown time zones', () => {
+        expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+});
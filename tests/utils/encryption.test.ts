@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+
+import { decryptValue, encryptValue } from '@utils/encryption.js';
+
+/**
+ * Flips a bit of a byte of an encrypted value.
+ * @param encrypted The base64url encoded value.
+ * @param index The index of the byte to change.
+ * @returns The tampered value.
+ */
+function tamper(encrypted: string, index: number): string {
+    const bytes = Buffer.from(encrypted, 'base64url');
+    bytes[index] ^= 1;
+    return bytes.toString('base64url');
+}
+
+describe('encryptValue', () => {
+    test('hides the value', async () => {
+        const encrypted = await encryptValue('top secret', 'secret');
+        expect(encrypted).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(Buffer.from(encrypted, 'base64url').toString()).not.toContain('top secret');
+    });
+
+    test('uses a new initialization vector every time', async () => {
+        const first = await encryptValue('hello', 'secret');
+        const second = await encryptValue('hello', 'secret');
+        expect(first).not.toBe(second);
+    });
+});
+
+describe('decryptValue', () => {
+    test('returns the encrypted value', async () => {
+        for (const value of ['hello', '', 'ünïcødé ✓', JSON.stringify({ id: 1 })]) {
+            const encrypted = await encryptValue(value, 'secret');
+            expect(await decryptValue(encrypted, ['secret'])).toBe(value);
+        }
+    });
+
+    test('rejects a tampered initialization vector or ciphertext', async () => {
+        const encrypted = await encryptValue('hello', 'secret');
+        const length = Buffer.from(encrypted, 'base64url').length;
+        expect(await decryptValue(tamper(encrypted, 0), ['secret'])).toBeUndefined();
+        expect(await decryptValue(tamper(encrypted, 12), ['secret'])).toBeUndefined();
+        expect(await decryptValue(tamper(encrypted, length - 1), ['secret'])).toBeUndefined();
+    });
+
+    test('rejects truncated or malformed values', async () => {
+        const encrypted = await encryptValue('hello', 'secret');
+        expect(await decryptValue(encrypted.slice(0, -4), ['secret'])).toBeUndefined();
+        expect(await decryptValue('', ['secret'])).toBeUndefined();
+        expect(await decryptValue('short', ['secret'])).toBeUndefined();
+        expect(await decryptValue('not base64url!', ['secret'])).toBeUndefined();
+    });
+
+    test('rejects values encrypted with another secret', async () => {
+        const encrypted = await encryptValue('hello', 'other');
+        expect(await decryptValue(encrypted, ['secret'])).toBeUndefined();
+        expect(await decryptValue(encrypted, [])).toBeUndefined();
+    });
+
+    test('binds the value to its context', async () => {
+        const encrypted = await encryptValue('hello', 'secret', 'session');
+        expect(await decryptValue(encrypted, ['secret'], 'session')).toBe('hello');
+        expect(await decryptValue(encrypted, ['secret'], 'theme')).toBeUndefined();
+        expect(await decryptValue(encrypted, ['secret'])).toBeUndefined();
+    });
+
+    test('accepts values encrypted with a previous secret while rotating', async () => {
+        const old = await encryptValue('hello', 'old');
+        expect(await decryptValue(old, ['new', 'old'])).toBe('hello');
+        expect(await decryptValue(await encryptValue('hello', 'new'), ['new', 'old'])).toBe(
+            'hello'
+        );
+        // Once the old secret is removed, its values are rejected
+        expect(await decryptValue(old, ['new'])).toBeUndefined();
+    });
+});
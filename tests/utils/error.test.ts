@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test, type Mock } from 'bun:test';
+
+import { NotFound, ServiceUnavailable } from '@core/errors.js';
+import { errorResponse, formatErrorResponse, httpErrorDetails } from '@utils/error.js';
+
+const request = new Request('http://localhost/api/items?page=x');
+
+const validationError = httpErrorDetails(400, {
+    detail: 'Request validation failed',
+    code: 'VALIDATION_FAILED',
+    issues: [{ field: 'query', path: 'page', message: 'Expected number', code: 'invalid_type' }],
+    cause: [{ field: 'query', error: new Error('raw') }],
+});
+
+describe('formatErrorResponse', () => {
+    test('sends validation issues as { errors } by default', async () => {
+        const response = formatErrorResponse(validationError, request);
+        expect(response.status).toBe(400);
+        expect(response.headers.get('content-type')).toBe('application/json');
+        expect(await response.json()).toEqual({
+            errors: [{ field: 'query', path: 'page', message: 'Expected number', code: 'invalid_type' }],
+        });
+    });
+
+    test('sends other errors as { error, code, details } by default', async () => {
+        const response = formatErrorResponse(
+            httpErrorDetails(404, { detail: 'Route not found', code: 'ROUTE_NOT_FOUND' }),
+            request
+        );
+        expect(await response.json()).toEqual({ error: 'Route not found', code: 'ROUTE_NOT_FOUND' });
+    });
+
+    test('sends problem details', async () => {
+        const response = formatErrorResponse(validationError, request, 'problem');
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(await response.json()).toEqual({
+            type: 'about:blank',
+            title: 'Bad Request',
+            status: 400,
+            detail: 'Request validation failed',
+            instance: '/api/items',
+            code: 'VALIDATION_FAILED',
+            errors: validationError.issues,
+        });
+    });
+
+    test('keeps the headers of the error', () => {
+        const response = formatErrorResponse(
+            httpErrorDetails(405, { headers: { Allow: 'GET, HEAD' } }),
+            request,
+            'problem'
+        );
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe('GET, HEAD');
+    });
+
+    test('sends the body returned by a formatter as JSON', async () => {
+        const response = formatErrorResponse(validationError, request, (error, req) => ({
+            message: error.detail,
+            path: new URL(req.url).pathname,
+            cause: error.cause,
+        }));
+        expect(response.status).toBe(400);
+        expect(response.headers.get('content-type')).toBe('application/json');
+        expect(await response.json()).toEqual({
+            message: 'Request validation failed',
+            path: '/api/items',
+            cause: [{ field: 'query', error: {} }],
+        });
+    });
+
+    test('sends a Response returned by a formatter as it is', async () => {
+        const response = formatErrorResponse(validationError, request, () =>
+            new Response('nope', { status: 418 })
+        );
+        expect(response.status).toBe(418);
+        expect(await response.text()).toBe('nope');
+    });
+});
+
+describe('errorResponse', () => {
+    let consoleError: Mock<typeof console.error>;
+
+    beforeEach(() => {
+        consoleError = spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        consoleError.mockRestore();
+    });
+
+    test('maps HttpErrors to their status without logging client errors', async () => {
+        const response = errorResponse(new NotFound('No such item'), request, false);
+        expect(response.status).toBe(404);
+        expect((await response.json()).error).toBe('No such item');
+        expect(consoleError).not.toHaveBeenCalled();
+    });
+
+    test('logs server HttpErrors once', () => {
+        const response = errorResponse(new ServiceUnavailable(), request, false);
+        expect(response.status).toBe(503);
+        expect(consoleError).toHaveBeenCalledTimes(1);
+    });
+
+    test('logs unhandled errors once and hides them outside debug mode', async () => {
+        const response = errorResponse(new Error('db down'), request, false);
+        expect(response.status).toBe(500);
+        expect(await response.text()).toBe('Internal Server Error');
+        expect(consoleError).toHaveBeenCalledTimes(1);
+    });
+
+    test('includes the message of unhandled errors in debug mode', async () => {
+        const response = errorResponse(new Error('db down'), request, true);
+        expect((await response.json()).error).toBe('db down');
+        expect(consoleError).toHaveBeenCalledTimes(1);
+    });
+
+    test('formats unhandled errors as problem details', async () => {
+        const response = errorResponse(new Error('db down'), request, false, 'problem');
+        expect(response.headers.get('content-type')).toBe('application/problem+json');
+        expect(await response.json()).toMatchObject({
+            status: 500,
+            title: 'Internal Server Error',
+            code: 'INTERNAL_ERROR',
+        });
+        expect(consoleError).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { coerceToSchema, parseQuery } from '@utils/query.js';
+
+/**
+ * Parses a query string, as the framework does for request URLs.
+ * @param query The query string, without the leading "?".
+ * @returns The parsed query object.
+ */
+function parse(query: string) {
+    return parseQuery(new URLSearchParams(query));
+}
+
+describe('parseQuery', () => {
+    test('keeps single values as strings', () => {
+        expect(parse('page=2&q=hello%20world')).toEqual({ page: '2', q: 'hello world' });
+    });
+
+    test('turns repeated keys into arrays', () => {
+        expect(parse('tag=a&tag=b&tag=c')).toEqual({ tag: ['a', 'b', 'c'] });
+    });
+
+    test('turns tag[] keys into arrays, also for a single or empty value', () => {
+        expect(parse('tag[]=a&tag[]=b')).toEqual({ tag: ['a', 'b'] });
+        expect(parse('tag[]=a')).toEqual({ tag: ['a'] });
+        expect(parse('tag[]=')).toEqual({ tag: [''] });
+    });
+
+    test('turns bracket keys into nested objects', () => {
+        expect(parse('filter[status]=open&filter[owner][name]=ann')).toEqual({
+            filter: { status: 'open', owner: { name: 'ann' } },
+        });
+    });
+
+    test('keeps brackets beyond the maximum depth in the last key', () => {
+        expect(parse('a[b][c][d][e][f]=1')).toEqual({
+            a: { b: { c: { d: { 'e[f]': '1' } } } },
+        });
+    });
+
+    test('keeps keys that are not bracket keys as they are', () => {
+        expect(parse('[a]=1&b[c=2&d]=3')).toEqual({ '[a]': '1', 'b[c': '2', 'd]': '3' });
+    });
+
+    test('ignores bracket keys for a key that already has a plain value', () => {
+        expect(parse('a=1&a[b]=2')).toEqual({ a: '1' });
+    });
+
+    test('ignores keys that would pollute the prototype', () => {
+        const query = parse('__proto__[admin]=1&__proto__=x&b=2');
+        expect(query).toEqual({ b: '2' });
+        expect(({} as any).admin).toBeUndefined();
+    });
+
+    test('parses keys named like Object.prototype members', () => {
+        const query = parse('valueOf=1&toString=a&constructor=x&a[hasOwnProperty]=y&a[prototype]=z');
+        expect(query).toEqual({
+            valueOf: '1',
+            toString: 'a',
+            constructor: 'x',
+            a: { hasOwnProperty: 'y', prototype: 'z' },
+        });
+        expect(Object.getPrototypeOf(query)).toBeNull();
+        expect(coerceToSchema(z.object({ valueOf: z.number() }), query)).toMatchObject({ valueOf: 1 });
+    });
+});
+
+describe('coerceToSchema', () => {
+    test('coerces numbers, bigints and booleans', () => {
+        expect(coerceToSchema(z.number(), '42')).toBe(42);
+        expect(coerceToSchema(z.number(), '-1.5')).toBe(-1.5);
+        expect(coerceToSchema(z.bigint(), '9007199254740993')).toBe(9007199254740993n);
+        expect(coerceToSchema(z.boolean(), 'true')).toBe(true);
+        expect(coerceToSchema(z.boolean(), '0')).toBe(false);
+    });
+
+    test('leaves values that cannot be coerced for the schema to report', () => {
+        expect(coerceToSchema(z.number(), 'abc')).toBe('abc');
+        expect(coerceToSchema(z.number(), '')).toBe('');
+        expect(coerceToSchema(z.boolean(), 'yes')).toBe('yes');
+        expect(coerceToSchema(z.date(), 'not a date')).toBe('not a date');
+    });
+
+    test('coerces dates and literals', () => {
+        expect(coerceToSchema(z.date(), '2024-01-02')).toEqual(new Date('2024-01-02'));
+        expect(coerceToSchema(z.literal(1), '1')).toBe(1);
+        expect(coerceToSchema(z.literal(true), 'true')).toBe(true);
+    });
+
+    test('sees through optional, nullable, default and effects schemas', () => {
+        expect(coerceToSchema(z.number().optional(), '1')).toBe(1);
+        expect(coerceToSchema(z.number().nullable().default(0), '2')).toBe(2);
+        expect(coerceToSchema(z.number().refine((n) => n > 0), '3')).toBe(3);
+        expect(coerceToSchema(z.number().pipe(z.number().int()), '4')).toBe(4);
+    });
+
+    test('wraps a single value for array schemas', () => {
+        expect(coerceToSchema(z.array(z.number()), '1')).toEqual([1]);
+    });
+
+    test('coerces array, set and tuple items', () => {
+        expect(coerceToSchema(z.array(z.number()), ['1', '2'])).toEqual([1, 2]);
+        expect(coerceToSchema(z.set(z.number()), ['1', '1'])).toEqual(new Set([1]));
+        expect(coerceToSchema(z.tuple([z.number(), z.boolean()]), ['1', 'true'])).toEqual([
+            1,
+            true,
+        ]);
+    });
+
+    test('turns indexed keys into arrays in index order', () => {
+        const query = parse('ids[1]=20&ids[0]=10&ids[10]=30');
+        expect(coerceToSchema(z.object({ ids: z.array(z.number()) }), query)).toEqual({
+            ids: [10, 20, 30],
+        });
+    });
+
+    test('leaves repeated keys for a single value schema', () => {
+        expect(coerceToSchema(z.number(), ['1', '2'])).toEqual(['1', '2']);
+    });
+
+    test('coerces nested objects and records, keeping unknown keys', () => {
+        const schema = z.object({
+            page: z.number(),
+            filter: z.object({ done: z.boolean() }),
+            limits: z.record(z.number()),
+        });
+        const query = parse('page=2&filter[done]=false&limits[a]=1&limits[b]=2&extra=x');
+        expect(coerceToSchema(schema, query)).toEqual({
+            page: 2,
+            filter: { done: false },
+            limits: { a: 1, b: 2 },
+            extra: 'x',
+        });
+    });
+
+    test('produces values the schema accepts', () => {
+        const schema = z.object({ tag: z.array(z.string()), page: z.number().default(1) });
+        const result = schema.safeParse(coerceToSchema(schema, parse('tag[]=&page=3')));
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ tag: [''], page: 3 });
+    });
+});
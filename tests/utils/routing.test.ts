@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+
+import { formatRouteTable } from '@utils/routing.js';
+import type { Middleware, RouteDefinition } from '@Types';
+
+const handler = () => new Response();
+const middleware: Middleware = async (req, res, next) => next();
+
+describe('formatRouteTable', () => {
+    test('lists each method with its middleware, schema and source, sorted by path', () => {
+        const routes: RouteDefinition[] = [
+            {
+                path: '/users/:id',
+                handlers: { GET: handler, HEAD: handler },
+                implicitMethods: ['HEAD'],
+                middleware: [middleware],
+                schema: { get: { params: z.object({ id: z.string() }), query: z.object({}) } },
+                config: {},
+                file: 'src/api/users/[id]/route.ts',
+            },
+            { path: '/items', handlers: { POST: handler }, config: {} },
+        ];
+
+        expect(formatRouteTable(routes).split('\n')).toEqual([
+            'METHOD  PATH        MIDDLEWARE  SCHEMA         SOURCE',
+            'POST    /items      0           -              code',
+            'GET     /users/:id  1           params, query  src/api/users/[id]/route.ts',
+        ]);
+    });
+
+    test('prints only the header without routes', () => {
+        expect(formatRouteTable([])).toBe('METHOD  PATH  MIDDLEWARE  SCHEMA  SOURCE');
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+
+import { signValue, unsignValue } from '@utils/signing.js';
+
+describe('signValue', () => {
+    test('appends a base64url signature', () => {
+        expect(signValue('hello', 'secret')).toMatch(/^hello\.[A-Za-z0-9_-]{43}$/);
+    });
+
+    test('signs the same value the same way', () => {
+        expect(signValue('hello', 'secret')).toBe(signValue('hello', 'secret'));
+        expect(signValue('hello', 'secret')).not.toBe(signValue('hello', 'other'));
+    });
+});
+
+describe('unsignValue', () => {
+    test('returns the signed value', () => {
+        expect(unsignValue(signValue('hello', 'secret'), ['secret'])).toBe('hello');
+        expect(unsignValue(signValue('', 'secret'), ['secret'])).toBe('');
+    });
+
+    test('keeps dots in the value', () => {
+        expect(unsignValue(signValue('a.b.c', 'secret'), ['secret'])).toBe('a.b.c');
+    });
+
+    test('rejects a tampered value', () => {
+        const signed = signValue('user=1', 'secret');
+        expect(unsignValue(signed.replace('user=1', 'user=2'), ['secret'])).toBeUndefined();
+    });
+
+    test('rejects a tampered signature', () => {
+        const signed = signValue('hello', 'secret');
+        const last = signed.endsWith('A') ? 'B' : 'A';
+        expect(unsignValue(signed.slice(0, -1) + last, ['secret'])).toBeUndefined();
+        expect(unsignValue(signed.slice(0, -1), ['secret'])).toBeUndefined();
+        expect(unsignValue('hello.', ['secret'])).toBeUndefined();
+    });
+
+    test('rejects unsigned values', () => {
+        expect(unsignValue('hello', ['secret'])).toBeUndefined();
+    });
+
+    test('rejects values signed with another secret', () => {
+        expect(unsignValue(signValue('hello', 'other'), ['secret'])).toBeUndefined();
+        expect(unsignValue(signValue('hello', 'secret'), [])).toBeUndefined();
+    });
+
+    test('binds the value to its name', () => {
+        const signed = signValue('admin', 'secret', 'pref');
+        expect(unsignValue(signed, ['secret'], 'pref')).toBe('admin');
+        // A value moved to another cookie is rejected
+        expect(unsignValue(signed, ['secret'], 'sid')).toBeUndefined();
+        expect(unsignValue(signed, ['secret'])).toBeUndefined();
+        expect(unsignValue(signValue('admin', 'secret'), ['secret'], 'sid')).toBeUndefined();
+    });
+
+    test('accepts values signed with a previous secret while rotating', () => {
+        const old = signValue('hello', 'old');
+        expect(unsignValue(old, ['new', 'old'])).toBe('hello');
+        expect(unsignValue(signValue('hello', 'new'), ['new', 'old'])).toBe('hello');
+        // Once the old secret is removed, its values are rejected
+        expect(unsignValue(old, ['new'])).toBeUndefined();
+    });
+});